@@ -0,0 +1,50 @@
+/**
+ * Details of an HttpError
+ */
+export type HttpErrorOptions<TBody = unknown> = {
+  /** Status text of the response */
+  statusText?: string;
+  /** Parsed response body */
+  body?: TBody;
+  /** Milliseconds to wait before retrying, from the Retry-After header */
+  retryAfter?: number;
+  /** URL of the request */
+  url?: string;
+};
+
+/**
+ * Error thrown by fetcher services for responses outside the 2xx range
+ *
+ * Its `status` and `retryAfter` are read by the default retry policy: client errors
+ * other than 408 and 429 are not retried, and retries wait at least `retryAfter`.
+ *
+ * @example
+ * ```ts
+ * if (error instanceof HttpError && error.status === 404) {
+ *   return <NotFound />;
+ * }
+ * ```
+ */
+export class HttpError<TBody = unknown> extends Error {
+  /** HTTP status code */
+  readonly status: number;
+  /** HTTP status text */
+  readonly statusText: string;
+  /** Parsed response body (undefined when it could not be read) */
+  readonly body: TBody | undefined;
+  /** Milliseconds to wait before retrying, when the response sent Retry-After */
+  readonly retryAfter: number | undefined;
+  /** URL of the request */
+  readonly url: string;
+
+  constructor(status: number, options: HttpErrorOptions<TBody> = {}) {
+    const { statusText = '', body, retryAfter, url = '' } = options;
+    super(`Request failed with status ${status}${statusText ? ` ${statusText}` : ''}`);
+    this.name = 'HttpError';
+    this.status = status;
+    this.statusText = statusText;
+    this.body = body;
+    this.retryAfter = retryAfter;
+    this.url = url;
+  }
+}
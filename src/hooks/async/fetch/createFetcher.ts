@@ -0,0 +1,205 @@
+/**
+ * Fetch client producing useRequest services
+ */
+
+import type { RequestContext } from '../useRequest.js';
+import { HttpError } from './HttpError.js';
+import type {
+  FetcherOptions,
+  Fetcher,
+  FetchMethod,
+  FetchParser,
+  FetchQuery,
+  FetchRequest,
+  FetchRequestBuilder,
+  FetchService,
+  FetchServiceFactory,
+} from './types.js';
+
+const EMPTY_BODY_STATUSES = new Set([204, 205]);
+
+function defaultParse(response: Response): Promise<unknown> {
+  if (EMPTY_BODY_STATUSES.has(response.status)) {
+    return Promise.resolve(undefined);
+  }
+  const contentType = response.headers.get('content-type') ?? '';
+  return /[/+]json\b/.test(contentType) ? response.json() : response.text();
+}
+
+function buildUrl(baseUrl: string, path: string, query: FetchQuery | undefined): string {
+  let url = /^[a-z][\d+.a-z-]*:\/\//i.test(path)
+    ? path
+    : `${baseUrl.replace(/\/+$/, '')}/${path.replace(/^\/+/, '')}`;
+  // Request needs an absolute URL; relative ones resolve against the page like fetch does
+  if (typeof location !== 'undefined') {
+    url = new URL(url, location.href).href;
+  }
+
+  const search = new URLSearchParams();
+  for (const [name, value] of Object.entries(query ?? {})) {
+    if (value !== undefined) {
+      search.append(name, String(value));
+    }
+  }
+  const queryString = search.toString();
+  if (!queryString) {
+    return url;
+  }
+  return `${url}${url.includes('?') ? '&' : '?'}${queryString}`;
+}
+
+function isJsonBody(body: unknown): boolean {
+  if (body === null || typeof body !== 'object') {
+    return false;
+  }
+  const prototype: unknown = Object.getPrototypeOf(body);
+  return Array.isArray(body) || prototype === Object.prototype || prototype === null;
+}
+
+/**
+ * Parse a Retry-After header (seconds or an HTTP date) into milliseconds
+ */
+function parseRetryAfter(value: string | null): number | undefined {
+  if (value === null) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (value.trim() !== '' && Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+async function createHttpError(response: Response, parse: FetchParser): Promise<HttpError> {
+  let body: unknown;
+  try {
+    body = await parse(response);
+  } catch {
+    // The status is what matters; an unreadable error body is left undefined
+  }
+
+  const retryAfter = parseRetryAfter(response.headers.get('retry-after'));
+  return new HttpError(response.status, {
+    statusText: response.statusText,
+    body,
+    url: response.url,
+    ...(retryAfter !== undefined && { retryAfter }),
+  });
+}
+
+function splitContext<TParameters extends unknown[]>(
+  args: [...TParameters, RequestContext?]
+): [TParameters, AbortSignal | undefined] {
+  const last = args[args.length - 1] as Partial<RequestContext> | undefined;
+  if (args.length > 0 && last?.signal instanceof AbortSignal) {
+    return [args.slice(0, -1) as TParameters, last.signal];
+  }
+  return [args as unknown as TParameters, undefined];
+}
+
+function resolveRequest<TData, TParameters extends unknown[]>(
+  builder: FetchRequestBuilder<TData, TParameters>,
+  parameters: TParameters
+): string | FetchRequest<TData> {
+  return typeof builder === 'function' ? builder(...parameters) : builder;
+}
+
+async function createHttpRequest(
+  { baseUrl = '', headers }: FetcherOptions,
+  method: FetchMethod,
+  request: FetchRequest<unknown>,
+  signal: AbortSignal | undefined
+): Promise<Request> {
+  const requestHeaders = new Headers(typeof headers === 'function' ? await headers() : headers);
+  new Headers(request.headers).forEach((value, name) => requestHeaders.set(name, value));
+
+  let body = request.body as BodyInit | null | undefined;
+  if (isJsonBody(request.body)) {
+    body = JSON.stringify(request.body);
+    if (!requestHeaders.has('content-type')) {
+      requestHeaders.set('content-type', 'application/json');
+    }
+  }
+
+  return new Request(buildUrl(baseUrl, request.path, request.query), {
+    ...request.init,
+    method,
+    headers: requestHeaders,
+    body: body ?? null,
+    ...(signal && { signal }),
+  });
+}
+
+/**
+ * Create a fetch client whose services plug into useRequest
+ *
+ * Services resolve with the parsed body and reject with an HttpError for responses
+ * outside the 2xx range. With `withSignal: true`, cancelling the request aborts the fetch.
+ * The data type comes from a typed `parse`, or is given explicitly with the params:
+ * `api.get<User, [id: string]>((id) => \`/users/${id}\`)`.
+ *
+ * @param options - Fetcher options
+ * @returns Fetch client
+ *
+ * @example
+ * ```tsx
+ * const api = createFetcher({
+ *   baseUrl: 'https://api.example.com',
+ *   headers: () => ({ Authorization: `Bearer ${getToken()}` }),
+ * });
+ *
+ * const getUser = api.get<User, [id: string]>((id) => `/users/${id}`);
+ * const updateUser = api.patch((id: string, changes: Partial<User>) => ({
+ *   path: `/users/${id}`,
+ *   body: changes,
+ * }));
+ *
+ * const { data } = useRequest(getUser, { defaultParams: ['42'], withSignal: true });
+ * ```
+ */
+export function createFetcher(options: FetcherOptions = {}): Fetcher {
+  const { interceptors = {}, parse = defaultParse } = options;
+
+  const send = async <TData>(
+    method: FetchMethod,
+    requestOrPath: string | FetchRequest<TData>,
+    signal?: AbortSignal
+  ): Promise<TData> => {
+    const request = typeof requestOrPath === 'string' ? { path: requestOrPath } : requestOrPath;
+
+    let httpRequest = await createHttpRequest(options, method, request, signal);
+    for (const intercept of interceptors.request ?? []) {
+      httpRequest = await intercept(httpRequest);
+    }
+
+    let response = await (options.fetch ?? fetch)(httpRequest);
+    for (const intercept of interceptors.response ?? []) {
+      response = await intercept(response, httpRequest);
+    }
+
+    if (!response.ok) {
+      throw await createHttpError(response, parse);
+    }
+    return (await (request.parse ?? parse)(response)) as TData;
+  };
+
+  const createService =
+    (method: FetchMethod): FetchServiceFactory =>
+    <TData, TParameters extends unknown[]>(
+      builder: FetchRequestBuilder<TData, TParameters>
+    ): FetchService<TData, TParameters> =>
+    (...args) => {
+      const [parameters, signal] = splitContext<TParameters>(args);
+      return send(method, resolveRequest(builder, parameters), signal);
+    };
+
+  return {
+    request: send,
+    get: createService('GET'),
+    post: createService('POST'),
+    put: createService('PUT'),
+    patch: createService('PATCH'),
+    delete: createService('DELETE'),
+  };
+}
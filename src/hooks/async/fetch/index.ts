@@ -0,0 +1,21 @@
+/**
+ * Fetch client for useRequest services
+ */
+
+export { createFetcher } from './createFetcher.js';
+export { HttpError } from './HttpError.js';
+export type { HttpErrorOptions } from './HttpError.js';
+export type {
+  Fetcher,
+  FetcherOptions,
+  FetchInterceptors,
+  FetchMethod,
+  FetchParser,
+  FetchQuery,
+  FetchRequest,
+  FetchRequestBuilder,
+  FetchRequestInterceptor,
+  FetchResponseInterceptor,
+  FetchService,
+  FetchServiceFactory,
+} from './types.js';
@@ -0,0 +1,121 @@
+/**
+ * Fetch client types and interfaces
+ */
+
+import type { RequestContext } from '../useRequest.js';
+
+/**
+ * Query string values; undefined values are left out
+ */
+export type FetchQuery = Record<string, string | number | boolean | undefined>;
+
+/**
+ * Read the body of a response
+ */
+export type FetchParser<TData = unknown> = (response: Response) => Promise<TData> | TData;
+
+/**
+ * A request sent by a fetcher
+ */
+export type FetchRequest<TData = unknown> = {
+  /** Path appended to `baseUrl`, or an absolute URL */
+  path: string;
+  /** Query string parameters */
+  query?: FetchQuery;
+  /** Headers merged over the fetcher headers */
+  headers?: HeadersInit;
+  /** Request body; plain objects and arrays are sent as JSON */
+  body?: unknown;
+  /** Parser of this request's responses, overriding the fetcher `parse` */
+  parse?: FetchParser<TData>;
+  /** Other fetch options (credentials, cache, mode...) */
+  init?: Omit<RequestInit, 'body' | 'headers' | 'method' | 'signal'>;
+};
+
+/**
+ * HTTP method of a fetcher service
+ */
+export type FetchMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+/**
+ * Request interceptor, returning the request to send
+ */
+export type FetchRequestInterceptor = (request: Request) => Request | Promise<Request>;
+
+/**
+ * Response interceptor, returning the response to handle (called before status checks)
+ */
+export type FetchResponseInterceptor = (
+  response: Response,
+  request: Request
+) => Response | Promise<Response>;
+
+/**
+ * Interceptors of a fetcher, called in order
+ */
+export type FetchInterceptors = {
+  request?: FetchRequestInterceptor[];
+  response?: FetchResponseInterceptor[];
+};
+
+/**
+ * Options for createFetcher
+ */
+export type FetcherOptions = {
+  /** URL prepended to request paths */
+  baseUrl?: string;
+  /** Headers sent with every request, or a function returning them (e.g. to add a token) */
+  headers?: HeadersInit | (() => HeadersInit | Promise<HeadersInit>);
+  /** Request and response interceptors */
+  interceptors?: FetchInterceptors;
+  /**
+   * Parser of every response body, also used for error bodies
+   * @default JSON for JSON content types, text otherwise, undefined for 204 and 205
+   */
+  parse?: FetchParser;
+  /**
+   * fetch implementation
+   * @default globalThis.fetch
+   */
+  fetch?: typeof fetch;
+};
+
+/**
+ * Request built by a service from its params: a path, or a full request
+ */
+export type FetchRequestBuilder<TData, TParameters extends unknown[]> =
+  string | FetchRequest<TData> | ((...parameters: TParameters) => string | FetchRequest<TData>);
+
+/**
+ * useRequest service created by a fetcher
+ *
+ * A `RequestContext` passed after the params (with useRequest's `withSignal: true`)
+ * aborts the fetch when the request is cancelled.
+ */
+export type FetchService<TData, TParameters extends unknown[]> = (
+  ...args: [...TParameters, RequestContext?]
+) => Promise<TData>;
+
+/**
+ * Create a service for one HTTP method
+ */
+export type FetchServiceFactory = <TData = unknown, TParameters extends unknown[] = []>(
+  request: FetchRequestBuilder<TData, TParameters>
+) => FetchService<TData, TParameters>;
+
+/**
+ * Fetch client created by createFetcher
+ */
+export type Fetcher = {
+  /** Send a request, resolving with the parsed body or rejecting with an HttpError */
+  request: <TData = unknown>(
+    method: FetchMethod,
+    request: string | FetchRequest<TData>,
+    signal?: AbortSignal
+  ) => Promise<TData>;
+  get: FetchServiceFactory;
+  post: FetchServiceFactory;
+  put: FetchServiceFactory;
+  patch: FetchServiceFactory;
+  delete: FetchServiceFactory;
+};
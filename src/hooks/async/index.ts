@@ -2,10 +2,30 @@
  * Async hooks export
  */
 
+export * from './fetch/index.js';
+export * from './offline/index.js';
+export * from './request/index.js';
+export * from './retry/index.js';
+export type { AsyncStatus, AsyncStatusState } from './status.js';
+export * from './timeout/index.js';
+export * from './timer/index.js';
 export * from './useAsync.js';
-export type { AsyncFunctionState as AsyncFnState, AsyncFunctionState } from './useAsyncFunction.js';
+export type {
+  AsyncConcurrency,
+  AsyncFunctionState as AsyncFnState,
+  AsyncFunctionState,
+  UseAsyncFunctionOptions,
+} from './useAsyncFunction.js';
 export { useAsyncFunction as useAsyncFn, useAsyncFunction } from './useAsyncFunction.js';
 export * from './useAsyncRetry.js';
+export * from './useInfiniteRequest.js';
+export * from './useInfiniteScroll.js';
 export * from './useInterval.js';
+export * from './useMutation.js';
+export * from './useMutationQueue.js';
+export * from './usePaginatedRequest.js';
 export * from './useRequest.js';
+export * from './useRequests.js';
+export * from './useStreamingRequest.js';
+export * from './useSuspenseRequest.js';
 export * from './useTimeout.js';
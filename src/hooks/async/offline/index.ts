@@ -0,0 +1,12 @@
+/**
+ * Offline mutation queue for useMutation
+ */
+
+export { createMutationQueue } from './queue.js';
+export type {
+  MutationConflictListener,
+  MutationQueue,
+  MutationQueueOptions,
+  MutationQueueStorage,
+  QueuedMutation,
+} from './types.js';
@@ -0,0 +1,379 @@
+/**
+ * Persistent offline mutation queue
+ */
+
+import { logHookError } from '../../../utils/errorLogging.js';
+import { normalizeError } from '../request/execute.js';
+import { getRetryDelay, isRetryableError } from '../retry/policy.js';
+import type { RetryPolicy } from '../retry/types.js';
+import { resolveMutationQueueStorage } from './storage.js';
+import type {
+  MutationConflictListener,
+  MutationQueue,
+  MutationQueueOptions,
+  MutationQueueStorage,
+  QueuedMutation,
+} from './types.js';
+
+type MutationHandler = (...variables: unknown[]) => Promise<unknown>;
+
+type Waiter = {
+  resolve: (data: unknown) => void;
+  reject: (error: Error) => void;
+};
+
+type QueueState = {
+  storage: MutationQueueStorage;
+  maxAttempts: number;
+  pending: QueuedMutation[];
+  /** Ids queued in this tab that are not saved yet */
+  added: Set<string>;
+  /** Ids settled or dropped in this tab, kept out of what other tabs saved */
+  removed: Set<string>;
+  handlers: Map<string, MutationHandler>;
+  waiters: Map<string, Waiter>;
+  listeners: Set<() => void>;
+  conflictListeners: Set<MutationConflictListener>;
+  saving: Promise<void>;
+};
+
+const LOCK_PREFIX = 'kitium:mutation-replay:';
+// Backoff between replays after a retryable failure: 1s, 2s, 4s... up to 30s
+const REPLAY_RETRY_POLICY: RetryPolicy = { count: Infinity, jitter: 'equal' };
+
+let nextId = 0;
+
+function createMutationId(): string {
+  nextId += 1;
+  return `${Date.now().toString(36)}-${nextId}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function notifyListeners(state: QueueState): void {
+  for (const listener of Array.from(state.listeners)) {
+    listener();
+  }
+}
+
+/**
+ * Merge the mutations saved by other tabs sharing the storage into the pending ones
+ *
+ * Stored mutations settled here are left out, and pending mutations missing from the
+ * storage that were saved before have been settled by another tab.
+ */
+function mergePending(state: QueueState, stored: QueuedMutation[]): QueuedMutation[] {
+  const local = new Map(state.pending.map((item) => [item.id, item]));
+  const storedIds = new Set(stored.map((item) => item.id));
+  const merged = [
+    ...stored
+      .filter((item) => !state.removed.has(item.id))
+      .map((item) => local.get(item.id) ?? item),
+    ...state.pending.filter((item) => !storedIds.has(item.id) && state.added.has(item.id)),
+  ];
+  return merged.sort((first, second) => first.createdAt - second.createdAt);
+}
+
+function applyStored(state: QueueState, stored: QueuedMutation[]): QueuedMutation[] {
+  const merged = mergePending(state, stored);
+  const mergedIds = new Set(merged.map((item) => item.id));
+  const error = new Error('The queued mutation was settled in another tab');
+  for (const item of state.pending) {
+    if (!mergedIds.has(item.id)) {
+      state.waiters.get(item.id)?.reject(error);
+      state.waiters.delete(item.id);
+    }
+  }
+
+  state.pending = merged;
+  notifyListeners(state);
+  return merged;
+}
+
+async function syncPending(state: QueueState): Promise<void> {
+  const stored = state.storage.load();
+  // Synchronous storages are read and written in a single task, so tabs cannot interleave
+  const merged = applyStored(state, stored instanceof Promise ? await stored : stored);
+  await state.storage.save(merged);
+  for (const item of merged) {
+    state.added.delete(item.id);
+  }
+}
+
+/**
+ * Re-read the storage and save the pending mutations merged with it
+ *
+ * Syncs run one after another so a slow write cannot overwrite a newer one.
+ */
+function scheduleSync(state: QueueState): Promise<void> {
+  state.saving = state.saving
+    .then(() => syncPending(state))
+    .catch((error: unknown) => {
+      logHookError('useMutation', 'Failed to persist the mutation queue', error);
+    });
+  return state.saving;
+}
+
+function setPending(state: QueueState, pending: QueuedMutation[]): void {
+  const ids = new Set(pending.map((item) => item.id));
+  for (const item of state.pending) {
+    if (!ids.has(item.id)) {
+      state.removed.add(item.id);
+    }
+  }
+  state.pending = pending;
+  void scheduleSync(state);
+  notifyListeners(state);
+}
+
+function settleMutation(
+  state: QueueState,
+  mutation: QueuedMutation,
+  outcome: { data: unknown } | { error: Error }
+): void {
+  setPending(
+    state,
+    state.pending.filter((item) => item.id !== mutation.id)
+  );
+
+  const waiter = state.waiters.get(mutation.id);
+  state.waiters.delete(mutation.id);
+  if ('data' in outcome) {
+    waiter?.resolve(outcome.data);
+    return;
+  }
+
+  waiter?.reject(outcome.error);
+  for (const listener of Array.from(state.conflictListeners)) {
+    listener(mutation, outcome.error);
+  }
+}
+
+function markFailedAttempt(state: QueueState, id: string): void {
+  setPending(
+    state,
+    state.pending.map((item) => (item.id === id ? { ...item, attempts: item.attempts + 1 } : item))
+  );
+}
+
+/**
+ * Replay the pending mutations in order
+ *
+ * @returns Delay before replaying again after a retryable failure
+ */
+async function replayPending(state: QueueState): Promise<number | undefined> {
+  // Another tab may have replayed some of the mutations since the last sync
+  await scheduleSync(state);
+
+  for (let mutation = state.pending[0]; mutation; mutation = state.pending[0]) {
+    const handler = state.handlers.get(mutation.mutationKey);
+    if (!handler) {
+      // Later mutations may depend on this one, so replay waits for its handler
+      return undefined;
+    }
+
+    try {
+      settleMutation(state, mutation, { data: await handler(...mutation.variables) });
+    } catch (error) {
+      const errorObject = normalizeError(error);
+      const attempt = mutation.attempts + 1;
+      if (isRetryableError(errorObject) && attempt < state.maxAttempts) {
+        // Still offline (or the server is failing): keep the order and retry later
+        markFailedAttempt(state, mutation.id);
+        return getRetryDelay(REPLAY_RETRY_POLICY, attempt, errorObject, 0);
+      }
+      settleMutation(state, mutation, { error: errorObject });
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Run a replay while holding the replay lock of the queue key
+ *
+ * Tabs sharing the storage replay one at a time, each starting from what the previous
+ * one left; without the Web Locks API every tab replays on its own.
+ */
+function withReplayLock<T>(key: string, replay: () => Promise<T>): Promise<T> {
+  const locks = typeof navigator === 'undefined' ? undefined : navigator.locks;
+  return locks ? locks.request(LOCK_PREFIX + key, replay) : replay();
+}
+
+function dropMutations(state: QueueState, ids: Set<string>): void {
+  const error = new Error('The queued mutation was removed');
+  for (const id of ids) {
+    state.waiters.get(id)?.reject(error);
+    state.waiters.delete(id);
+  }
+  setPending(
+    state,
+    state.pending.filter((item) => !ids.has(item.id))
+  );
+}
+
+function enqueueMutation(
+  state: QueueState,
+  mutationKey: string,
+  variables: unknown[]
+): Promise<unknown> {
+  const mutation: QueuedMutation = {
+    id: createMutationId(),
+    mutationKey,
+    variables,
+    createdAt: Date.now(),
+    attempts: 0,
+  };
+  state.added.add(mutation.id);
+  setPending(state, [...state.pending, mutation]);
+
+  return new Promise((resolve, reject) => {
+    state.waiters.set(mutation.id, { resolve, reject });
+  });
+}
+
+function registerHandler(
+  state: QueueState,
+  mutationKey: string,
+  handler: MutationHandler
+): () => void {
+  state.handlers.set(mutationKey, handler);
+  return () => {
+    if (state.handlers.get(mutationKey) === handler) {
+      state.handlers.delete(mutationKey);
+    }
+  };
+}
+
+function subscribeTo<T>(listeners: Set<T>, listener: T): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+type Replay = {
+  replay: () => Promise<void>;
+  /** Replay after `delay`, replacing the replay already scheduled */
+  schedule: (delay: number) => void;
+};
+
+/**
+ * Create the replay of a queue, retried with backoff after a retryable failure
+ *
+ * Concurrent calls share the running replay.
+ */
+function createReplay(state: QueueState, key: string, ready: Promise<void>): Replay {
+  let replaying: Promise<void> | undefined;
+  let retryTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const retry = (): void => {
+    // Offline, the next `online` event replays instead
+    if (isNavigatorOnline()) {
+      replay().catch((error: unknown) => {
+        logHookError('useMutation', 'Mutation replay failed', error);
+      });
+    }
+  };
+
+  const schedule = (delay: number): void => {
+    clearTimeout(retryTimer);
+    retryTimer = setTimeout(retry, delay);
+  };
+
+  function replay(): Promise<void> {
+    clearTimeout(retryTimer);
+    replaying ??= ready
+      .then(() => withReplayLock(key, () => replayPending(state)))
+      .then((retryDelay) => {
+        if (retryDelay !== undefined) {
+          schedule(retryDelay);
+        }
+      })
+      .finally(() => {
+        replaying = undefined;
+      });
+    return replaying;
+  }
+
+  return { replay, schedule };
+}
+
+/**
+ * Create a persistent queue for mutations made while offline
+ *
+ * Pass it to useMutation's `offline` option and to useMutationQueue. Mutations queued
+ * in an earlier session are loaded from storage and replayed once a useMutation with
+ * the same `mutationKey` is mounted.
+ *
+ * @param options - Storage backend, key and replay attempts
+ * @returns Mutation queue
+ *
+ * @example
+ * ```ts
+ * const mutationQueue = createMutationQueue({ storage: 'indexedDB', key: 'app:mutations' });
+ * ```
+ */
+export function createMutationQueue(options: MutationQueueOptions = {}): MutationQueue {
+  const { storage = 'localStorage', key = 'kitium:mutations', maxAttempts = 5 } = options;
+  const state: QueueState = {
+    storage: resolveMutationQueueStorage(storage, key),
+    maxAttempts,
+    pending: [],
+    added: new Set(),
+    removed: new Set(),
+    handlers: new Map(),
+    waiters: new Map(),
+    listeners: new Set(),
+    conflictListeners: new Set(),
+    saving: Promise.resolve(),
+  };
+
+  const ready = Promise.resolve(state.storage.load()).then(
+    (stored) => {
+      // Mutations queued while loading come after the stored ones
+      setPending(state, [...stored, ...state.pending]);
+    },
+    (error: unknown) => {
+      logHookError('useMutation', 'Failed to load the mutation queue', error);
+    }
+  );
+  const { replay, schedule } = createReplay(state, key, ready);
+
+  return {
+    ready,
+    getPending: () => state.pending,
+    enqueue(mutationKey, variables, error) {
+      const settled = enqueueMutation(state, mutationKey, variables);
+      if (isNavigatorOnline()) {
+        // No `online` event is coming, so replay after the backoff of the failed attempt
+        schedule(error ? (getRetryDelay(REPLAY_RETRY_POLICY, 1, error, 0) ?? 0) : 0);
+      }
+      return settled;
+    },
+    register: (mutationKey, mutationFn) => registerHandler(state, mutationKey, mutationFn),
+    replay,
+    remove: (id) => dropMutations(state, new Set([id])),
+    clear: () => dropMutations(state, new Set(state.pending.map((item) => item.id))),
+    subscribe: (listener) => subscribeTo(state.listeners, listener),
+    onConflict: (listener) => subscribeTo(state.conflictListeners, listener),
+  };
+}
+
+let defaultMutationQueue: MutationQueue | undefined;
+
+/**
+ * Queue used by useMutation and useMutationQueue when none is passed (localStorage)
+ *
+ * @internal
+ */
+export function getDefaultMutationQueue(): MutationQueue {
+  defaultMutationQueue ??= createMutationQueue();
+  return defaultMutationQueue;
+}
+
+/**
+ * Whether the browser reports connectivity (always true on the server)
+ *
+ * @internal
+ */
+export function isNavigatorOnline(): boolean {
+  return typeof navigator === 'undefined' || navigator.onLine;
+}
@@ -0,0 +1,27 @@
+/**
+ * Replay trigger shared by useMutation and useMutationQueue
+ */
+
+import { useEffect } from 'react';
+
+import { logHookError } from '../../../utils/errorLogging.js';
+import { useOnline } from '../../browser/useOnline.js';
+import type { MutationQueue } from './types.js';
+
+/**
+ * Replay a mutation queue on mount and whenever connectivity returns
+ *
+ * @internal
+ */
+export function useReplayWhenOnline(queue: MutationQueue | undefined): void {
+  const isOnline = useOnline();
+
+  useEffect(() => {
+    if (!queue || !isOnline) {
+      return;
+    }
+    queue.replay().catch((error: unknown) => {
+      logHookError('useMutation', 'Mutation replay failed', error);
+    });
+  }, [isOnline, queue]);
+}
@@ -0,0 +1,114 @@
+/**
+ * Persistence backends of the mutation queue
+ */
+
+import type { StorageType } from '../../browser/storage/types.js';
+import { logHookWarning } from '../../../utils/errorLogging.js';
+import { isBrowser } from '../../../utils/ssr.js';
+import type { MutationQueueStorage, QueuedMutation } from './types.js';
+
+const STORE_NAME = 'mutations';
+const RECORD_KEY = 'pending';
+
+function createWebStorage(type: StorageType, key: string): MutationQueueStorage {
+  const getStorage = (): Storage | undefined => {
+    if (!isBrowser()) {
+      return undefined;
+    }
+    return type === 'localStorage' ? window.localStorage : window.sessionStorage;
+  };
+
+  return {
+    load() {
+      try {
+        const item = getStorage()?.getItem(key);
+        return item ? (JSON.parse(item) as QueuedMutation[]) : [];
+      } catch (error) {
+        logHookWarning('useMutation', 'Error reading the mutation queue', { error, key, type });
+        return [];
+      }
+    },
+    save(mutations) {
+      try {
+        getStorage()?.setItem(key, JSON.stringify(mutations));
+      } catch (error) {
+        logHookWarning('useMutation', 'Error writing the mutation queue', { error, key, type });
+      }
+    },
+  };
+}
+
+function openDatabase(name: string): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(name, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function runStoreRequest<T>(
+  database: IDBDatabase,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const request = operation(database.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function createIndexedDbStorage(name: string): MutationQueueStorage {
+  let database: Promise<IDBDatabase> | undefined;
+  const getDatabase = (): Promise<IDBDatabase> => {
+    database ??= openDatabase(name);
+    return database;
+  };
+
+  return {
+    async load() {
+      if (typeof indexedDB === 'undefined') {
+        return [];
+      }
+      try {
+        const stored = await runStoreRequest(await getDatabase(), 'readonly', (store) =>
+          store.get(RECORD_KEY)
+        );
+        return Array.isArray(stored) ? (stored as QueuedMutation[]) : [];
+      } catch (error) {
+        logHookWarning('useMutation', 'Error reading the mutation queue', { error, name });
+        return [];
+      }
+    },
+    async save(mutations) {
+      if (typeof indexedDB === 'undefined') {
+        return;
+      }
+      try {
+        await runStoreRequest(await getDatabase(), 'readwrite', (store) =>
+          store.put(mutations, RECORD_KEY)
+        );
+      } catch (error) {
+        logHookWarning('useMutation', 'Error writing the mutation queue', { error, name });
+      }
+    },
+  };
+}
+
+/**
+ * Resolve the `storage` option of createMutationQueue
+ *
+ * @internal
+ */
+export function resolveMutationQueueStorage(
+  storage: StorageType | 'indexedDB' | MutationQueueStorage,
+  key: string
+): MutationQueueStorage {
+  if (typeof storage === 'object') {
+    return storage;
+  }
+  return storage === 'indexedDB' ? createIndexedDbStorage(key) : createWebStorage(storage, key);
+}
@@ -0,0 +1,101 @@
+/**
+ * Offline mutation queue types and interfaces
+ */
+
+import type { StorageType } from '../../browser/storage/types.js';
+
+/**
+ * A mutation waiting in the queue for connectivity
+ */
+export type QueuedMutation = {
+  /** Unique id of the queued mutation */
+  id: string;
+  /** The `mutationKey` the mutation was queued under */
+  mutationKey: string;
+  /** Arguments the mutation is replayed with */
+  variables: unknown[];
+  /** Time the mutation was queued (milliseconds since epoch) */
+  createdAt: number;
+  /** Number of replays that failed with a retryable error */
+  attempts: number;
+};
+
+/**
+ * Persistence backend of a mutation queue
+ */
+export type MutationQueueStorage = {
+  /** Read the persisted mutations */
+  load: () => QueuedMutation[] | Promise<QueuedMutation[]>;
+  /** Persist the pending mutations, replacing what was stored */
+  save: (mutations: QueuedMutation[]) => void | Promise<void>;
+};
+
+/**
+ * Listener notified when a replayed mutation fails with a non-retryable error
+ */
+export type MutationConflictListener = (mutation: QueuedMutation, error: Error) => void;
+
+/**
+ * Options for createMutationQueue
+ */
+export type MutationQueueOptions = {
+  /**
+   * Where queued mutations are persisted
+   * @default 'localStorage'
+   */
+  storage?: StorageType | 'indexedDB' | MutationQueueStorage;
+  /**
+   * Storage key (database name for IndexedDB)
+   * @default 'kitium:mutations'
+   */
+  key?: string;
+  /**
+   * Replays failing with a retryable error before the mutation is treated as a conflict
+   * @default 5
+   */
+  maxAttempts?: number;
+};
+
+/**
+ * Persistent queue of mutations replayed in order once connectivity returns
+ *
+ * Only the `mutationKey` and variables are persisted, so variables must be JSON
+ * serializable (structured cloneable for IndexedDB). The function replaying a key is
+ * registered by the useMutation hooks using it.
+ */
+export type MutationQueue = {
+  /** Resolves once the persisted mutations are loaded */
+  ready: Promise<void>;
+  /** Pending mutations in replay order */
+  getPending: () => QueuedMutation[];
+  /**
+   * Queue a mutation; resolves with its result once replayed, rejects on conflict
+   *
+   * While online, the queue replays on its own: after the backoff of `error`, the
+   * retryable error the mutation failed with, or right away without one.
+   */
+  enqueue: (mutationKey: string, variables: unknown[], error?: Error) => Promise<unknown>;
+  /** Register the function replaying the mutations of a key, returns an unregister function */
+  register: (
+    mutationKey: string,
+    mutationFn: (...variables: unknown[]) => Promise<unknown>
+  ) => () => void;
+  /**
+   * Replay the pending mutations in order
+   *
+   * Stops at the first retryable failure, retried with an exponential backoff while
+   * online, or at a mutation whose key has no registered function. Non-retryable
+   * failures, and mutations out of `maxAttempts`, are conflicts: the mutation is dropped
+   * and the conflict listeners are called. Tabs sharing the storage replay one at a time
+   * through the Web Locks API, and their writes are merged by mutation id.
+   */
+  replay: () => Promise<void>;
+  /** Drop a pending mutation */
+  remove: (id: string) => void;
+  /** Drop every pending mutation */
+  clear: () => void;
+  /** Subscribe to changes of the pending mutations, returns an unsubscribe function */
+  subscribe: (listener: () => void) => () => void;
+  /** Subscribe to replay conflicts, returns an unsubscribe function */
+  onConflict: (listener: MutationConflictListener) => () => void;
+};
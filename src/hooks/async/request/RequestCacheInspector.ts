@@ -0,0 +1,129 @@
+/**
+ * In-page view of the request cache for debugging
+ */
+
+import { createElement, type ReactNode, useEffect, useState } from 'react';
+
+import { getInflightRequests } from './cache.js';
+import { onRequestEvent } from './events.js';
+import { useRequestCache } from './RequestCacheProvider.js';
+import type { RequestCache } from './types.js';
+
+/**
+ * Props for RequestCacheInspector
+ */
+export type RequestCacheInspectorProps = {
+  /** Cache to inspect (defaults to the cache in scope) */
+  cache?: RequestCache;
+  /**
+   * How often entry ages are refreshed, in milliseconds
+   * @default 1000
+   */
+  refreshInterval?: number;
+  /** Class name for the table element */
+  className?: string;
+};
+
+const MAX_PREVIEW_LENGTH = 80;
+const COLUMNS = ['Key', 'Age', 'Status', 'Data'];
+
+function previewData(data: unknown): string {
+  let preview: string;
+  try {
+    preview = JSON.stringify(data) ?? String(data);
+  } catch {
+    preview = '[unserializable]';
+  }
+  return preview.length > MAX_PREVIEW_LENGTH ? `${preview.slice(0, MAX_PREVIEW_LENGTH)}…` : preview;
+}
+
+function getStatus(cache: RequestCache, key: string, invalidated: boolean | undefined): string {
+  if (getInflightRequests(cache).has(key)) {
+    return 'fetching';
+  }
+  return invalidated ? 'invalidated' : 'cached';
+}
+
+function renderRow(cache: RequestCache, key: string, now: number): ReactNode {
+  const entry = cache.get(key);
+  if (!entry) {
+    return null;
+  }
+
+  const cells = [
+    key,
+    `${Math.round((now - entry.timestamp) / 1000)}s`,
+    getStatus(cache, key, entry.invalidated),
+    previewData(entry.data),
+  ];
+  return createElement(
+    'tr',
+    { key },
+    cells.map((cell, index) => createElement('td', { key: COLUMNS[index] }, cell))
+  );
+}
+
+/**
+ * Lists the live entries of a request cache with their age and status
+ *
+ * Intended for development builds: mount it next to the screen under investigation
+ * and combine it with onRequestEvent to see why data was or was not refetched.
+ *
+ * @example
+ * ```tsx
+ * {process.env.NODE_ENV === 'development' && <RequestCacheInspector />}
+ * ```
+ */
+export function RequestCacheInspector({
+  cache,
+  refreshInterval = 1000,
+  className,
+}: RequestCacheInspectorProps): ReactNode {
+  const scopedCache = useRequestCache();
+  const inspectedCache = cache ?? scopedCache;
+  const [now, setNow] = useState(Date.now);
+
+  useEffect(() => {
+    let pendingUpdate: ReturnType<typeof setTimeout> | undefined;
+    const update = (): void => {
+      setNow(Date.now());
+    };
+    // Events can be emitted while another component renders, so update afterwards
+    const unsubscribe = onRequestEvent(() => {
+      clearTimeout(pendingUpdate);
+      pendingUpdate = setTimeout(update, 0);
+    });
+    const intervalId = setInterval(update, refreshInterval);
+
+    return () => {
+      unsubscribe();
+      clearTimeout(pendingUpdate);
+      clearInterval(intervalId);
+    };
+  }, [refreshInterval]);
+
+  const keys = [...inspectedCache.keys()].sort();
+  const rows =
+    keys.length > 0
+      ? keys.map((key) => renderRow(inspectedCache, key, now))
+      : createElement(
+          'tr',
+          null,
+          createElement('td', { colSpan: COLUMNS.length }, 'No cached requests')
+        );
+
+  return createElement(
+    'table',
+    { className },
+    createElement(
+      'thead',
+      null,
+      createElement(
+        'tr',
+        null,
+        COLUMNS.map((column) => createElement('th', { key: column }, column))
+      )
+    ),
+    createElement('tbody', null, rows)
+  );
+}
@@ -0,0 +1,52 @@
+/**
+ * React context for scoping the useRequest cache
+ */
+
+import { createContext, createElement, type ReactNode, useContext, useState } from 'react';
+
+import { createLruRequestCache, DEFAULT_MAX_ENTRIES, defaultRequestCache } from './cache.js';
+import type { RequestCache } from './types.js';
+
+const RequestCacheContext = createContext<RequestCache>(defaultRequestCache);
+
+/**
+ * Props for RequestCacheProvider
+ */
+export type RequestCacheProviderProps = {
+  /** Cache to use for descendants (an in-memory LRU cache of 1000 entries is created when omitted) */
+  cache?: RequestCache;
+  children?: ReactNode;
+};
+
+/**
+ * Provides a request cache to every useRequest call below it
+ *
+ * Without a provider, all useRequest calls share a single module-level cache bounded
+ * to 1000 entries.
+ * Mount a provider per React root, tenant or test to isolate cached data.
+ *
+ * @example
+ * ```tsx
+ * const cache = createLruRequestCache({ maxEntries: 200 });
+ *
+ * root.render(
+ *   <RequestCacheProvider cache={cache}>
+ *     <App />
+ *   </RequestCacheProvider>
+ * );
+ * ```
+ */
+export function RequestCacheProvider({ cache, children }: RequestCacheProviderProps): ReactNode {
+  const [ownCache] = useState(() => createLruRequestCache({ maxEntries: DEFAULT_MAX_ENTRIES }));
+
+  return createElement(RequestCacheContext.Provider, { value: cache ?? ownCache }, children);
+}
+
+/**
+ * Hook that returns the request cache in scope
+ *
+ * @returns The nearest provided cache, or the shared default cache
+ */
+export function useRequestCache(): RequestCache {
+  return useContext(RequestCacheContext);
+}
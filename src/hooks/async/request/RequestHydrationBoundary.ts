@@ -0,0 +1,77 @@
+/**
+ * Component seeding the request cache with server-prefetched data
+ */
+
+import { createElement, type ReactNode, useEffect, useRef, useState } from 'react';
+
+import { isServer } from '../../../utils/ssr.js';
+import { createMemoryRequestCache, defaultRequestCache } from './cache.js';
+import { isRequestCacheKeyRetained } from './gc.js';
+import { hydrateRequestCache } from './hydration.js';
+import { RequestCacheProvider, useRequestCache } from './RequestCacheProvider.js';
+import type { DehydratedRequestCache } from './types.js';
+
+/**
+ * Props for RequestHydrationBoundary
+ */
+export type RequestHydrationBoundaryProps = {
+  /** Snapshot from dehydrateRequestCache */
+  state?: DehydratedRequestCache;
+  children?: ReactNode;
+};
+
+/**
+ * Seeds the request cache in scope with dehydrated entries before its children render
+ *
+ * useRequest and useSuspenseRequest calls below it read the prefetched data on their
+ * first render, so the server markup and the hydrated client render match without a
+ * loading state. On the server, when no RequestCacheProvider is in scope, the entries
+ * go into a cache private to this render instead of the shared module-level cache.
+ * Entries for keys hooks outside the boundary already use are written after render.
+ *
+ * @example
+ * ```tsx
+ * // server
+ * const cache = createMemoryRequestCache();
+ * await prefetchRequest('user', fetchUser, [userId], { cache });
+ * const state = dehydrateRequestCache({ cache });
+ *
+ * // server and client
+ * <RequestHydrationBoundary state={state}>
+ *   <UserProfile userId={userId} />
+ * </RequestHydrationBoundary>
+ * ```
+ */
+export function RequestHydrationBoundary({
+  state,
+  children,
+}: RequestHydrationBoundaryProps): ReactNode {
+  const scopedCache = useRequestCache();
+  const [serverCache] = useState(() =>
+    isServer() && scopedCache === defaultRequestCache ? createMemoryRequestCache() : undefined
+  );
+  const cache = serverCache ?? scopedCache;
+
+  // Hydrate during the first render rather than in an effect: children render before any
+  // effect runs and must read the entries synchronously. Renders repeated by StrictMode or
+  // restarted by concurrent rendering write the same snapshot again, which changes nothing
+  // since only newer entries are written. Keys mounted hooks already use are left to the
+  // effect, as writing them here would update those hooks while this component renders.
+  const hydratedReference = useRef(false);
+  if (!hydratedReference.current) {
+    hydratedReference.current = true;
+    if (state) {
+      const entries = state.entries.filter(([key]) => !isRequestCacheKeyRetained(cache, key));
+      hydrateRequestCache({ entries }, { cache });
+    }
+  }
+
+  // Later snapshots (e.g. from client-side navigation) are merged after render
+  useEffect(() => {
+    if (state) {
+      hydrateRequestCache(state, { cache });
+    }
+  }, [cache, state]);
+
+  return createElement(RequestCacheProvider, { cache }, children);
+}
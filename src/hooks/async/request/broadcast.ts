@@ -0,0 +1,245 @@
+/**
+ * Cross-tab sharing of request cache entries over BroadcastChannel
+ */
+
+import { useEffect, useState } from 'react';
+
+import { logHookWarning } from '../../../utils/errorLogging.js';
+import type { RequestCache, RequestCacheEntry } from './types.js';
+
+type BroadcastMessage = {
+  key: string;
+  entry: RequestCacheEntry;
+};
+
+type SharedKey = {
+  count: number;
+  unsubscribe: () => void;
+};
+
+type Leadership = {
+  count: number;
+  isLeader: boolean;
+  listeners: Set<(isLeader: boolean) => void>;
+  release: () => void;
+};
+
+const CHANNEL_NAME = 'kitium:request-cache';
+const LOCK_PREFIX = 'kitium:request-leader:';
+
+let channel: BroadcastChannel | undefined;
+// Entries written from another tab are not sent back
+let applyingRemoteEntry = false;
+
+const sharedKeys = new Map<string, Map<RequestCache, SharedKey>>();
+const leaderships = new Map<string, Leadership>();
+
+function applyRemoteEntry(event: MessageEvent<BroadcastMessage>): void {
+  const { key, entry } = event.data;
+  const caches = sharedKeys.get(key);
+  if (!caches) {
+    return;
+  }
+
+  for (const cache of caches.keys()) {
+    const current = cache.get(key);
+    if (current && current.timestamp > entry.timestamp) {
+      continue;
+    }
+
+    applyingRemoteEntry = true;
+    try {
+      cache.set(key, entry);
+    } finally {
+      applyingRemoteEntry = false;
+    }
+  }
+}
+
+function getChannel(): BroadcastChannel | undefined {
+  if (typeof BroadcastChannel === 'undefined') {
+    return undefined;
+  }
+  if (!channel) {
+    channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.addEventListener('message', applyRemoteEntry);
+  }
+  return channel;
+}
+
+function postEntry(target: BroadcastChannel, key: string, entry: RequestCacheEntry): void {
+  try {
+    target.postMessage({ key, entry } satisfies BroadcastMessage);
+  } catch (error) {
+    // Data that cannot be structured-cloned stays local to this tab
+    logHookWarning('useRequest', `Error broadcasting cache key "${key}"`, { error, key });
+  }
+}
+
+/**
+ * Send writes of a cache entry to other tabs, and apply their writes of the same key
+ *
+ * Invalidations and deletions stay local: the tab that invalidated an entry refetches
+ * it and broadcasts the fresh response.
+ *
+ * @returns Release function; the key stops being shared after the last release
+ *
+ * @internal
+ */
+export function shareRequestCacheKey(cache: RequestCache, key: string): () => void {
+  const target = getChannel();
+  if (!target) {
+    return () => undefined;
+  }
+
+  const caches = sharedKeys.get(key) ?? new Map<RequestCache, SharedKey>();
+  sharedKeys.set(key, caches);
+
+  let shared = caches.get(cache);
+  if (!shared) {
+    const unsubscribe = cache.subscribe(key, (entry) => {
+      if (entry && !entry.invalidated && !applyingRemoteEntry) {
+        postEntry(target, key, entry);
+      }
+    });
+    shared = { count: 0, unsubscribe };
+    caches.set(cache, shared);
+  }
+  shared.count++;
+
+  const current = shared;
+  return () => {
+    current.count--;
+    if (current.count > 0) {
+      return;
+    }
+
+    current.unsubscribe();
+    caches.delete(cache);
+    if (caches.size === 0) {
+      sharedKeys.delete(key);
+    }
+    if (sharedKeys.size === 0) {
+      target.close();
+      channel = undefined;
+    }
+  };
+}
+
+function setLeader(leadership: Leadership, isLeader: boolean): void {
+  leadership.isLeader = isLeader;
+  for (const listener of Array.from(leadership.listeners)) {
+    listener(isLeader);
+  }
+}
+
+function getLockManager(): LockManager | undefined {
+  return typeof navigator === 'undefined' ? undefined : navigator.locks;
+}
+
+function createLeadership(key: string): Leadership {
+  const locks = getLockManager();
+  const leadership: Leadership = {
+    count: 0,
+    // Without the Web Locks API there is no election and every tab leads
+    isLeader: !locks,
+    listeners: new Set(),
+    release: () => undefined,
+  };
+  if (!locks) {
+    return leadership;
+  }
+
+  const controller = new AbortController();
+  let unlock: (() => void) | undefined;
+
+  locks
+    .request(LOCK_PREFIX + key, { signal: controller.signal }, () => {
+      setLeader(leadership, true);
+      // The lock is held until the last hook of this tab releases the key
+      return new Promise<void>((resolve) => {
+        unlock = resolve;
+      });
+    })
+    .catch(() => undefined);
+
+  leadership.release = () => {
+    controller.abort();
+    unlock?.();
+  };
+  return leadership;
+}
+
+/**
+ * Take part in the election of the tab that leads a cache key
+ *
+ * One tab at a time leads each key, through a Web Locks API lock; when it closes or
+ * releases the key, the next waiting tab takes over. A tab follows until it gets the lock.
+ * Without the Web Locks API every tab leads. `onChange` is called whenever this tab's
+ * leadership changes.
+ *
+ * @returns Release function; the tab leaves the election after the last release
+ *
+ * @internal
+ */
+export function electRequestLeader(key: string, onChange: (isLeader: boolean) => void): () => void {
+  let leadership = leaderships.get(key);
+  if (!leadership) {
+    leadership = createLeadership(key);
+    leaderships.set(key, leadership);
+  }
+  leadership.count++;
+  leadership.listeners.add(onChange);
+  onChange(leadership.isLeader);
+
+  const current = leadership;
+  return () => {
+    current.listeners.delete(onChange);
+    current.count--;
+    if (current.count === 0) {
+      current.release();
+      leaderships.delete(key);
+    }
+  };
+}
+
+/**
+ * Share a cache key with other tabs while mounted
+ *
+ * @param cache - Cache the key lives in
+ * @param key - Entry key, or undefined to share nothing
+ * @param shouldElect - Whether to take part in the leader election of the key
+ * @returns Whether this tab leads the key (always true when not electing, false until the
+ * election settles)
+ *
+ * @internal
+ */
+export function useRequestBroadcast(
+  cache: RequestCache,
+  key: string | undefined,
+  shouldElect: boolean
+): boolean {
+  const [isLeader, setIsLeader] = useState(() => !getLockManager());
+  const isElecting = key !== undefined && shouldElect;
+
+  useEffect(() => {
+    if (key === undefined) {
+      return;
+    }
+    return shareRequestCacheKey(cache, key);
+  }, [cache, key]);
+
+  useEffect(() => {
+    if (key === undefined || !isElecting) {
+      return;
+    }
+    const release = electRequestLeader(key, setIsLeader);
+    return () => {
+      release();
+      // Leading again takes a new election
+      setIsLeader(!getLockManager());
+    };
+  }, [key, isElecting]);
+
+  return !isElecting || isLeader;
+}
@@ -0,0 +1,261 @@
+/**
+ * Built-in request cache implementations
+ */
+
+import { logHookWarning } from '../../../utils/errorLogging.js';
+import { isBrowser } from '../../../utils/ssr.js';
+import type {
+  LruRequestCacheOptions,
+  RequestCache,
+  RequestCacheEntry,
+  RequestCacheListener,
+  StorageRequestCacheOptions,
+} from './types.js';
+
+type ListenerRegistry = {
+  subscribe: (key: string, listener: RequestCacheListener) => () => void;
+  notify: (key: string, entry: RequestCacheEntry | undefined) => void;
+};
+
+function createListenerRegistry(): ListenerRegistry {
+  const listeners = new Map<string, Set<RequestCacheListener>>();
+
+  return {
+    subscribe(key, listener) {
+      const keyListeners = listeners.get(key) ?? new Set<RequestCacheListener>();
+      keyListeners.add(listener);
+      listeners.set(key, keyListeners);
+
+      return () => {
+        keyListeners.delete(listener);
+        if (keyListeners.size === 0) {
+          listeners.delete(key);
+        }
+      };
+    },
+    notify(key, entry) {
+      const keyListeners = listeners.get(key);
+      if (!keyListeners) {
+        return;
+      }
+      for (const listener of Array.from(keyListeners)) {
+        listener(entry);
+      }
+    },
+  };
+}
+
+/**
+ * Create an unbounded in-memory request cache
+ *
+ * @returns Request cache backed by a Map
+ *
+ * @example
+ * ```tsx
+ * const cache = createMemoryRequestCache();
+ *
+ * <RequestCacheProvider cache={cache}>
+ *   <App />
+ * </RequestCacheProvider>
+ * ```
+ */
+export function createMemoryRequestCache(): RequestCache {
+  const entries = new Map<string, RequestCacheEntry>();
+  const registry = createListenerRegistry();
+
+  return {
+    get: (key) => entries.get(key),
+    set(key, entry) {
+      entries.set(key, entry);
+      registry.notify(key, entry);
+    },
+    delete(key) {
+      if (entries.delete(key)) {
+        registry.notify(key, undefined);
+      }
+    },
+    keys: () => Array.from(entries.keys()),
+    subscribe: registry.subscribe,
+  };
+}
+
+/**
+ * Create an in-memory request cache that evicts the least recently used entry
+ * once `maxEntries` is exceeded
+ *
+ * @param options - LRU options
+ * @returns Size-bounded request cache
+ *
+ * @example
+ * ```tsx
+ * const cache = createLruRequestCache({ maxEntries: 100 });
+ * ```
+ */
+export function createLruRequestCache(options: LruRequestCacheOptions): RequestCache {
+  const { maxEntries } = options;
+  const entries = new Map<string, RequestCacheEntry>();
+  const registry = createListenerRegistry();
+
+  const evictOverflow = (): void => {
+    while (entries.size > maxEntries) {
+      const oldestKey = entries.keys().next().value as string;
+      entries.delete(oldestKey);
+      registry.notify(oldestKey, undefined);
+    }
+  };
+
+  return {
+    get(key) {
+      const entry = entries.get(key);
+      if (entry) {
+        // Re-insert to mark the entry as most recently used
+        entries.delete(key);
+        entries.set(key, entry);
+      }
+      return entry;
+    },
+    set(key, entry) {
+      entries.delete(key);
+      entries.set(key, entry);
+      registry.notify(key, entry);
+      evictOverflow();
+    },
+    delete(key) {
+      if (entries.delete(key)) {
+        registry.notify(key, undefined);
+      }
+    },
+    keys: () => Array.from(entries.keys()),
+    subscribe: registry.subscribe,
+  };
+}
+
+function getPrefixedKeys(storage: Storage, prefix: string): string[] {
+  const keys: string[] = [];
+  for (let index = 0; index < storage.length; index++) {
+    const storageKey = storage.key(index);
+    if (storageKey?.startsWith(prefix)) {
+      keys.push(storageKey.slice(prefix.length));
+    }
+  }
+  return keys;
+}
+
+/**
+ * Create a request cache persisted to localStorage or sessionStorage
+ *
+ * Entries are stored as JSON, so cached data must be serializable. On the server
+ * (or when storage is unavailable) the cache behaves as if it were empty.
+ *
+ * @param options - Storage options
+ * @returns Storage-backed request cache
+ *
+ * @example
+ * ```tsx
+ * const cache = createStorageRequestCache({ type: 'sessionStorage', prefix: 'app:' });
+ * ```
+ */
+export function createStorageRequestCache(options: StorageRequestCacheOptions = {}): RequestCache {
+  const { type = 'localStorage', prefix = 'kitium:request:' } = options;
+  const registry = createListenerRegistry();
+
+  const getStorage = (): Storage | undefined => {
+    if (!isBrowser()) {
+      return undefined;
+    }
+    return type === 'localStorage' ? window.localStorage : window.sessionStorage;
+  };
+
+  return {
+    get(key) {
+      try {
+        const item = getStorage()?.getItem(prefix + key);
+        return item ? (JSON.parse(item) as RequestCacheEntry) : undefined;
+      } catch (error) {
+        logHookWarning('useRequest', `Error reading cache key "${key}"`, { error, key, type });
+        return undefined;
+      }
+    },
+    set(key, entry) {
+      try {
+        getStorage()?.setItem(prefix + key, JSON.stringify(entry));
+      } catch (error) {
+        logHookWarning('useRequest', `Error writing cache key "${key}"`, { error, key, type });
+      }
+      registry.notify(key, entry);
+    },
+    delete(key) {
+      try {
+        getStorage()?.removeItem(prefix + key);
+      } catch (error) {
+        logHookWarning('useRequest', `Error deleting cache key "${key}"`, { error, key, type });
+      }
+      registry.notify(key, undefined);
+    },
+    keys() {
+      const storage = getStorage();
+      return storage ? getPrefixedKeys(storage, prefix) : [];
+    },
+    subscribe: registry.subscribe,
+  };
+}
+
+/**
+ * Size bound of the caches created when none is provided
+ *
+ * @internal
+ */
+export const DEFAULT_MAX_ENTRIES = 1000;
+
+/**
+ * Cache used when no RequestCacheProvider is mounted
+ *
+ * @internal
+ */
+export const defaultRequestCache: RequestCache = createLruRequestCache({
+  maxEntries: DEFAULT_MAX_ENTRIES,
+});
+
+let lastTimestamp = 0;
+
+/**
+ * Current time for cache entry timestamps and request starts
+ *
+ * Strictly increasing (by a microsecond within the same millisecond), so a write made in
+ * the same millisecond a request started still counts as newer than the request.
+ *
+ * @internal
+ */
+export function createRequestTimestamp(): number {
+  lastTimestamp = Math.max(Date.now(), lastTimestamp + 0.001);
+  return lastTimestamp;
+}
+
+/**
+ * Replace the data of an entry, keeping its tags and clearing its invalidation
+ *
+ * @internal
+ */
+export function writeRequestCacheData(cache: RequestCache, key: string, data: unknown): void {
+  const tags = cache.get(key)?.tags;
+  cache.set(key, { data, timestamp: createRequestTimestamp(), ...(tags && { tags }) });
+}
+
+/**
+ * In-flight requests per cache, used for deduplication
+ */
+const inflightRequests = new WeakMap<RequestCache, Map<string, Promise<unknown>>>();
+
+/**
+ * Get the in-flight request map for a cache
+ *
+ * @internal
+ */
+export function getInflightRequests(cache: RequestCache): Map<string, Promise<unknown>> {
+  let requests = inflightRequests.get(cache);
+  if (!requests) {
+    requests = new Map();
+    inflightRequests.set(cache, requests);
+  }
+  return requests;
+}
@@ -0,0 +1,58 @@
+/**
+ * Request lifecycle events for debugging and devtools
+ */
+
+import { logHookError } from '../../../utils/errorLogging.js';
+import type { RequestEvent, RequestEventListener } from './types.js';
+
+const listeners = new Set<RequestEventListener>();
+
+/**
+ * Subscribe to the lifecycle events of every useRequest call
+ *
+ * Events are emitted for all caches, including requests made by useSuspenseRequest,
+ * useInfiniteRequest and prefetchRequest.
+ *
+ * @param listener - Called with each event
+ * @returns Unsubscribe function
+ *
+ * @example
+ * ```ts
+ * if (process.env.NODE_ENV === 'development') {
+ *   onRequestEvent((event) => {
+ *     console.debug(`[request] ${event.type}`, event.key, event.duration);
+ *   });
+ * }
+ * ```
+ */
+export function onRequestEvent(listener: RequestEventListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Whether any listener is registered, to skip building events nobody receives
+ *
+ * @internal
+ */
+export function hasRequestEventListeners(): boolean {
+  return listeners.size > 0;
+}
+
+/**
+ * Deliver an event to every listener
+ *
+ * @internal
+ */
+export function emitRequestEvent(event: RequestEvent): void {
+  for (const listener of listeners) {
+    try {
+      listener(event);
+    } catch (error) {
+      // A failing listener must not break the request that emitted the event
+      logHookError('onRequestEvent', 'Request event listener failed', error, { type: event.type });
+    }
+  }
+}
@@ -0,0 +1,345 @@
+/**
+ * Request execution shared by useRequest and useSuspenseRequest
+ */
+
+import { abortable, getAbortError, sleep } from '../../../utils/abort.js';
+import { getRetryDelay } from '../retry/policy.js';
+import type { RetryPolicy } from '../retry/types.js';
+import { createTimeoutSignal } from '../timeout/deadline.js';
+import type { RequestTimeout } from '../timeout/types.js';
+import type { RequestContext } from '../useRequest.js';
+import { createRequestTimestamp, getInflightRequests } from './cache.js';
+import { emitRequestEvent, hasRequestEventListeners } from './events.js';
+import { scheduleRequestCacheGc } from './gc.js';
+import type { RequestCache, RequestCacheEntry, RequestEvent, RequestEventType } from './types.js';
+
+/**
+ * Per-call settings for executeWithRetry
+ *
+ * @internal
+ */
+export type ExecuteConfig<TData, TParameters extends unknown[]> = {
+  cache: RequestCache;
+  cacheKeyValue?: string;
+  /** Collect the entry this long after no hook retains it (never collected when omitted) */
+  cacheTime?: number;
+  freshTime: number;
+  isRefresh: boolean;
+  retry: RetryPolicy;
+  signal: AbortSignal;
+  tags?: string[];
+  timeout?: RequestTimeout;
+  withSignal: boolean;
+  onBefore?: (parameters: TParameters) => void;
+  onSuccess?: (data: TData, parameters: TParameters) => void;
+  onError?: (error: Error, parameters: TParameters) => void;
+};
+
+type RequestAttempt = {
+  /** Zero-based attempt number */
+  attempt: number;
+  /** Signal of the whole request: the caller's signal, also aborted by the total timeout */
+  signal: AbortSignal;
+  tracker: RequestTracker;
+};
+
+type RequestTracker = {
+  /** Time the request started (a createRequestTimestamp value) */
+  startedAt: number;
+  /** Milliseconds since the request started */
+  elapsed: () => number;
+  /** Emit a lifecycle event for the request */
+  report: (
+    type: RequestEventType,
+    details?: Pick<RequestEvent, 'attempt' | 'delay' | 'error'>
+  ) => void;
+};
+
+function createRequestTracker(key: string | undefined, params: readonly unknown[]): RequestTracker {
+  const startedAt = createRequestTimestamp();
+  const elapsed = (): number => Date.now() - startedAt;
+
+  return {
+    startedAt,
+    elapsed,
+    report: (type, details) => {
+      if (hasRequestEventListeners()) {
+        emitRequestEvent({
+          type,
+          key,
+          params,
+          timestamp: Date.now(),
+          duration: elapsed(),
+          ...details,
+        });
+      }
+    },
+  };
+}
+
+function getCachedData<TData>(
+  cache: RequestCache,
+  cacheKeyValue: string | undefined,
+  freshTime: number
+): TData | undefined {
+  if (!cacheKeyValue) {
+    return undefined;
+  }
+
+  const cached = cache.get(cacheKeyValue);
+  if (!cached || cached.invalidated) {
+    return undefined;
+  }
+
+  const isFresh = Date.now() - cached.timestamp < freshTime;
+  return isFresh ? (cached.data as TData) : undefined;
+}
+
+// In-flight requests cancelled by their caller, whose joiners start over
+const abortedRequests = new WeakSet<Promise<unknown>>();
+
+function getDedupPromise<TData>(
+  cache: RequestCache,
+  cacheKeyValue: string | undefined
+): Promise<TData> | undefined {
+  if (!cacheKeyValue) {
+    return undefined;
+  }
+  return getInflightRequests(cache).get(cacheKeyValue) as Promise<TData> | undefined;
+}
+
+/**
+ * Let other requests for the key join `promise` until it settles or `signal` aborts
+ */
+function shareInflightRequest(
+  cache: RequestCache,
+  cacheKeyValue: string,
+  promise: Promise<unknown>,
+  signal: AbortSignal
+): void {
+  const inflightRequests = getInflightRequests(cache);
+  const release = (): void => {
+    signal.removeEventListener('abort', handleAbort);
+    if (inflightRequests.get(cacheKeyValue) === promise) {
+      inflightRequests.delete(cacheKeyValue);
+    }
+  };
+  const handleAbort = (): void => {
+    abortedRequests.add(promise);
+    release();
+  };
+
+  inflightRequests.set(cacheKeyValue, promise);
+  signal.addEventListener('abort', handleAbort, { once: true });
+  promise.then(release, release);
+}
+
+/**
+ * Wrap non-Error rejections in an Error
+ *
+ * @internal
+ */
+export function normalizeError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error));
+}
+
+function callService<TData, TParameters extends unknown[]>(
+  service: (...args: TParameters) => Promise<TData>,
+  requestParameters: TParameters,
+  config: Pick<ExecuteConfig<TData, TParameters>, 'signal' | 'withSignal'>
+): Promise<TData> {
+  if (!config.withSignal) {
+    return service(...requestParameters);
+  }
+
+  const context: RequestContext = { signal: config.signal };
+  return service(...([...requestParameters, context] as unknown as TParameters));
+}
+
+async function waitForRetry(
+  retry: RetryPolicy,
+  error: Error,
+  { attempt, signal, tracker }: RequestAttempt
+): Promise<boolean> {
+  const delay = signal.aborted
+    ? undefined
+    : getRetryDelay(retry, attempt, error, tracker.elapsed());
+  if (delay === undefined) {
+    return false;
+  }
+
+  tracker.report('retry', { attempt, delay, error });
+  try {
+    await sleep(delay, signal);
+    return true;
+  } catch {
+    // Cancelled, or the total timeout elapsed while waiting
+    return false;
+  }
+}
+
+/**
+ * Entry written to the key after the request started (e.g. an optimistic update), which
+ * the response must not overwrite
+ */
+function getNewerEntry(
+  cache: RequestCache,
+  cacheKeyValue: string,
+  startedAt: number
+): RequestCacheEntry | undefined {
+  const entry = cache.get(cacheKeyValue);
+  return entry && !entry.invalidated && entry.timestamp > startedAt ? entry : undefined;
+}
+
+/**
+ * Cache the result and report the success
+ *
+ * @returns The data to use: the result, or the newer data written to the key meanwhile
+ */
+function settleSuccess<TData, TParameters extends unknown[]>(
+  config: ExecuteConfig<TData, TParameters>,
+  requestParameters: TParameters,
+  result: TData,
+  tracker: RequestTracker
+): TData {
+  const { cache, cacheKeyValue, cacheTime, tags } = config;
+  let data = result;
+  if (cacheKeyValue !== undefined) {
+    const newerEntry = getNewerEntry(cache, cacheKeyValue, tracker.startedAt);
+    if (newerEntry) {
+      data = newerEntry.data as TData;
+    } else {
+      cache.set(cacheKeyValue, {
+        data: result,
+        timestamp: createRequestTimestamp(),
+        ...(tags && { tags }),
+      });
+      if (cacheTime !== undefined) {
+        scheduleRequestCacheGc(cache, cacheKeyValue, cacheTime);
+      }
+    }
+  }
+
+  tracker.report('success');
+  config.onSuccess?.(result, requestParameters);
+  return data;
+}
+
+function settleFailure<TData, TParameters extends unknown[]>(
+  config: ExecuteConfig<TData, TParameters>,
+  requestParameters: TParameters,
+  error: Error,
+  tracker: RequestTracker
+): Error {
+  if (config.signal.aborted) {
+    tracker.report('cancel', { error });
+    return error;
+  }
+
+  tracker.report('error', { error });
+  config.onError?.(error, requestParameters);
+  return error;
+}
+
+async function runAttempt<TData, TParameters extends unknown[]>(
+  service: (...args: TParameters) => Promise<TData>,
+  requestParameters: TParameters,
+  config: ExecuteConfig<TData, TParameters>,
+  run: RequestAttempt
+): Promise<TData> {
+  config.onBefore?.(requestParameters);
+
+  const attemptSignal = createTimeoutSignal(run.signal, config.timeout?.attempt);
+  let attemptError: Error;
+  try {
+    const result = await abortable(
+      callService(service, requestParameters, {
+        signal: attemptSignal.signal,
+        withSignal: config.withSignal,
+      }),
+      attemptSignal.signal
+    );
+    return settleSuccess(config, requestParameters, result, run.tracker);
+  } catch (error) {
+    attemptError = normalizeError(error);
+  } finally {
+    attemptSignal.clear();
+  }
+
+  const nextRun = { ...run, attempt: run.attempt + 1 };
+  if (!config.signal.aborted && (await waitForRetry(config.retry, attemptError, nextRun))) {
+    return runAttempt(service, requestParameters, config, nextRun);
+  }
+
+  // Report the total timeout rather than the error of the last attempt
+  const failure = run.signal.aborted ? getAbortError(run.signal) : attemptError;
+  throw settleFailure(config, requestParameters, failure, run.tracker);
+}
+
+/**
+ * Join the in-flight request for the key, or start one
+ */
+async function runRequest<TData, TParameters extends unknown[]>(
+  service: (...args: TParameters) => Promise<TData>,
+  requestParameters: TParameters,
+  config: ExecuteConfig<TData, TParameters>,
+  run: RequestAttempt
+): Promise<TData> {
+  const dedupPromise = config.isRefresh
+    ? undefined
+    : getDedupPromise<TData>(config.cache, config.cacheKeyValue);
+  if (!dedupPromise) {
+    run.tracker.report('start');
+    // Joiners share every attempt, so they only see the outcome of the retries
+    const promise = runAttempt(service, requestParameters, config, run);
+    if (config.cacheKeyValue !== undefined) {
+      shareInflightRequest(config.cache, config.cacheKeyValue, promise, run.signal);
+    }
+    return promise;
+  }
+
+  run.tracker.report('dedup');
+  try {
+    return await abortable(dedupPromise, run.signal);
+  } catch (error) {
+    // The joined request was cancelled by its own caller, not by this one
+    if (abortedRequests.has(dedupPromise) && !run.signal.aborted) {
+      return runRequest(service, requestParameters, config, run);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Run a request service with cache reads and writes, in-flight dedup, retries, timeouts
+ * and abort support
+ *
+ * @internal
+ */
+export async function executeWithRetry<TData, TParameters extends unknown[]>(
+  service: (...args: TParameters) => Promise<TData>,
+  requestParameters: TParameters,
+  config: ExecuteConfig<TData, TParameters>
+): Promise<TData> {
+  const { cache, cacheKeyValue } = config;
+  const tracker = createRequestTracker(cacheKeyValue, requestParameters);
+
+  const cached = config.isRefresh
+    ? undefined
+    : getCachedData<TData>(cache, cacheKeyValue, config.freshTime);
+  if (cached !== undefined) {
+    tracker.report('cache-hit');
+    return cached;
+  }
+
+  const deadline = createTimeoutSignal(config.signal, config.timeout?.total);
+  try {
+    return await runRequest(service, requestParameters, config, {
+      attempt: 0,
+      signal: deadline.signal,
+      tracker,
+    });
+  } finally {
+    deadline.clear();
+  }
+}
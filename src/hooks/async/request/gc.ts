@@ -0,0 +1,110 @@
+/**
+ * Garbage collection of request cache entries no mounted hook uses
+ */
+
+import { isServer } from '../../../utils/ssr.js';
+import type { RequestCache } from './types.js';
+
+type GcState = {
+  retainCounts: Map<string, number>;
+  timers: Map<string, ReturnType<typeof setTimeout>>;
+};
+
+const gcStates = new WeakMap<RequestCache, GcState>();
+
+function getGcState(cache: RequestCache): GcState {
+  let state = gcStates.get(cache);
+  if (!state) {
+    state = { retainCounts: new Map(), timers: new Map() };
+    gcStates.set(cache, state);
+  }
+  return state;
+}
+
+function isRetained(state: GcState, key: string): boolean {
+  return (state.retainCounts.get(key) ?? 0) > 0;
+}
+
+function scheduleCollection(
+  cache: RequestCache,
+  key: string,
+  cacheTime: number,
+  delay: number
+): void {
+  const state = getGcState(cache);
+  clearTimeout(state.timers.get(key));
+
+  const timerId = setTimeout(() => {
+    state.timers.delete(key);
+    if (isRetained(state, key)) {
+      return;
+    }
+
+    const entry = cache.get(key);
+    if (!entry) {
+      return;
+    }
+
+    // The entry may have been rewritten since the collection was scheduled
+    const remaining = cacheTime - (Date.now() - entry.timestamp);
+    if (remaining > 0) {
+      scheduleCollection(cache, key, cacheTime, remaining);
+    } else {
+      cache.delete(key);
+    }
+  }, delay);
+  state.timers.set(key, timerId);
+}
+
+/**
+ * Delete an entry once it is `cacheTime` old, unless a mounted hook retains it by then
+ *
+ * Nothing is scheduled on the server, where caches live for a single render, or for
+ * an infinite cacheTime.
+ *
+ * @internal
+ */
+export function scheduleRequestCacheGc(cache: RequestCache, key: string, cacheTime: number): void {
+  if (isServer() || !Number.isFinite(cacheTime) || isRetained(getGcState(cache), key)) {
+    return;
+  }
+  scheduleCollection(cache, key, cacheTime, cacheTime);
+}
+
+/**
+ * Whether a mounted hook uses a key
+ *
+ * @internal
+ */
+export function isRequestCacheKeyRetained(cache: RequestCache, key: string): boolean {
+  return isRetained(getGcState(cache), key);
+}
+
+/**
+ * Keep an entry alive while a hook uses it
+ *
+ * @returns Release function; the entry is collected `cacheTime` after the last release
+ *
+ * @internal
+ */
+export function retainRequestCacheKey(
+  cache: RequestCache,
+  key: string,
+  cacheTime: number
+): () => void {
+  const state = getGcState(cache);
+  state.retainCounts.set(key, (state.retainCounts.get(key) ?? 0) + 1);
+  clearTimeout(state.timers.get(key));
+  state.timers.delete(key);
+
+  return () => {
+    const count = (state.retainCounts.get(key) ?? 1) - 1;
+    if (count > 0) {
+      state.retainCounts.set(key, count);
+      return;
+    }
+
+    state.retainCounts.delete(key);
+    scheduleRequestCacheGc(cache, key, cacheTime);
+  };
+}
@@ -0,0 +1,121 @@
+/**
+ * Server-side prefetching and client-side hydration of the request cache
+ */
+
+import { logHookError } from '../../../utils/errorLogging.js';
+import { resolveRequestTimeout } from '../timeout/deadline.js';
+import { defaultRequestCache } from './cache.js';
+import { executeWithRetry } from './execute.js';
+import { getRequestCacheKey } from './keys.js';
+import type { DehydratedRequestCache, RequestCache, RequestCacheKey } from './types.js';
+
+/**
+ * Options for prefetchRequest, dehydrateRequestCache and hydrateRequestCache
+ */
+export type RequestHydrationOptions = {
+  /** Cache to use (defaults to the shared cache used without a RequestCacheProvider) */
+  cache?: RequestCache;
+};
+
+/**
+ * Options for prefetchRequest
+ */
+export type PrefetchRequestOptions = RequestHydrationOptions & {
+  /** Time limit in milliseconds, so a hung service cannot stall the server render */
+  timeout?: number;
+};
+
+/**
+ * Fetch a request ahead of rendering and store it under the key useRequest reads
+ *
+ * Failures are logged and resolve to undefined, so the component falls back to
+ * fetching on the client. On the server, pass a cache created per incoming request
+ * to keep data from leaking between users.
+ *
+ * @template TData - The return type of the request
+ * @template TParams - The parameter types for the request
+ * @param cacheKey - The `cacheKey` passed to useRequest
+ * @param service - Request service function
+ * @param params - Params passed to the service (the `defaultParams` of the useRequest)
+ * @param options - Cache to fill and time limit
+ * @returns The fetched data, or undefined if the request failed
+ *
+ * @example
+ * ```ts
+ * const cache = createMemoryRequestCache();
+ * await prefetchRequest('user', fetchUser, [userId], { cache });
+ * const state = dehydrateRequestCache({ cache });
+ * ```
+ */
+export async function prefetchRequest<TData, TParameters extends unknown[]>(
+  cacheKey: RequestCacheKey<TParameters>,
+  service: (...args: TParameters) => Promise<TData>,
+  params: TParameters,
+  options: PrefetchRequestOptions = {}
+): Promise<TData | undefined> {
+  const { cache = defaultRequestCache, timeout } = options;
+
+  try {
+    return await executeWithRetry(service, params, {
+      cache,
+      cacheKeyValue: getRequestCacheKey(cacheKey, params),
+      freshTime: 0,
+      isRefresh: false,
+      retry: { count: 0 },
+      signal: new AbortController().signal,
+      ...(timeout !== undefined && { timeout: resolveRequestTimeout(timeout) }),
+      withSignal: false,
+    });
+  } catch (error) {
+    logHookError('prefetchRequest', 'Prefetch failed', error, { cacheKey, params });
+    return undefined;
+  }
+}
+
+/**
+ * Serialize the entries of a request cache
+ *
+ * Invalidated entries are left out because the client would refetch them anyway.
+ * The result is plain JSON as long as the cached data is.
+ *
+ * @param options - Cache to serialize
+ * @returns Snapshot to pass to RequestHydrationBoundary or hydrateRequestCache
+ */
+export function dehydrateRequestCache(
+  options: RequestHydrationOptions = {}
+): DehydratedRequestCache {
+  const { cache = defaultRequestCache } = options;
+  const entries: DehydratedRequestCache['entries'] = [];
+
+  for (const key of cache.keys()) {
+    const entry = cache.get(key);
+    if (entry && !entry.invalidated) {
+      const { data, timestamp, tags } = entry;
+      entries.push([key, { data, timestamp, ...(tags && { tags }) }]);
+    }
+  }
+
+  return { entries };
+}
+
+/**
+ * Write dehydrated entries into a request cache
+ *
+ * Entries the cache already holds a newer version of are skipped.
+ *
+ * @param state - Snapshot from dehydrateRequestCache
+ * @param options - Cache to fill
+ */
+export function hydrateRequestCache(
+  state: DehydratedRequestCache,
+  options: RequestHydrationOptions = {}
+): void {
+  const { cache = defaultRequestCache } = options;
+
+  for (const [key, entry] of state.entries) {
+    const existing = cache.get(key);
+    if (!existing || existing.timestamp < entry.timestamp) {
+      cache.set(key, entry);
+    }
+  }
+}
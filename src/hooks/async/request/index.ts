@@ -0,0 +1,34 @@
+/**
+ * Request cache infrastructure for useRequest
+ */
+
+export {
+  createLruRequestCache,
+  createMemoryRequestCache,
+  createStorageRequestCache,
+} from './cache.js';
+export { onRequestEvent } from './events.js';
+export type { PrefetchRequestOptions, RequestHydrationOptions } from './hydration.js';
+export { dehydrateRequestCache, hydrateRequestCache, prefetchRequest } from './hydration.js';
+export type { InvalidateCacheOptions, InvalidateTagsOptions } from './invalidateCache.js';
+export { invalidateCache, invalidateTags } from './invalidateCache.js';
+export type { MutateCacheOptions } from './mutateCache.js';
+export { mutateCache } from './mutateCache.js';
+export type { RequestCacheInspectorProps } from './RequestCacheInspector.js';
+export { RequestCacheInspector } from './RequestCacheInspector.js';
+export type { RequestCacheProviderProps } from './RequestCacheProvider.js';
+export { RequestCacheProvider, useRequestCache } from './RequestCacheProvider.js';
+export type { RequestHydrationBoundaryProps } from './RequestHydrationBoundary.js';
+export { RequestHydrationBoundary } from './RequestHydrationBoundary.js';
+export type {
+  DehydratedRequestCache,
+  LruRequestCacheOptions,
+  RequestCache,
+  RequestCacheEntry,
+  RequestCacheKey,
+  RequestCacheListener,
+  RequestEvent,
+  RequestEventListener,
+  RequestEventType,
+  StorageRequestCacheOptions,
+} from './types.js';
@@ -0,0 +1,83 @@
+/**
+ * Cache invalidation usable outside React
+ */
+
+import { defaultRequestCache } from './cache.js';
+import { findRequestCacheKeys, getRequestCacheKey, isRequestCacheKeyOf } from './keys.js';
+import type { MutateCacheOptions } from './mutateCache.js';
+import { clearSuspenseErrors } from './suspense.js';
+
+/**
+ * Options for invalidateCache
+ */
+export type InvalidateCacheOptions = MutateCacheOptions;
+
+/**
+ * Mark cached useRequest data as stale
+ *
+ * Invalidated entries are never served as fresh. Mounted consumers keep showing
+ * the old data (with `isStale`) while they refetch it in the background, and failed
+ * useSuspenseRequest calls of the key fetch again on their next render.
+ *
+ * @param cacheKey - The `cacheKey` passed to useRequest
+ * @param options - Params and cache to target
+ *
+ * @example
+ * ```ts
+ * await api.updateUser(user);
+ * invalidateCache('users');
+ * invalidateCache('user', { params: [user.id] });
+ * ```
+ */
+export function invalidateCache(cacheKey: string, options: InvalidateCacheOptions = {}): void {
+  const { params, cache = defaultRequestCache } = options;
+
+  for (const key of findRequestCacheKeys(cache, cacheKey, params)) {
+    const entry = cache.get(key);
+    if (entry) {
+      cache.set(key, { ...entry, invalidated: true });
+    }
+  }
+
+  const paramsKey = params && getRequestCacheKey(cacheKey, params);
+  clearSuspenseErrors(cache, (key) =>
+    paramsKey === undefined ? isRequestCacheKeyOf(key, cacheKey) : key === paramsKey
+  );
+}
+
+/**
+ * Options for invalidateTags
+ */
+export type InvalidateTagsOptions = Pick<InvalidateCacheOptions, 'cache'>;
+
+/**
+ * Mark every cached entry carrying one of the tags as stale
+ *
+ * Works like invalidateCache across cache keys: mounted consumers of a matching entry
+ * refetch it in the background, other entries (and failed useSuspenseRequest calls with
+ * one of the tags) refetch on their next use.
+ *
+ * @param tags - Tag or tags passed to useRequest's `tags` option
+ * @param options - Cache to target
+ *
+ * @example
+ * ```ts
+ * useRequest(fetchUser, { cacheKey: 'user', defaultParams: [42], tags: ['user', 'user:42'] });
+ *
+ * await api.updateUser(42, changes);
+ * invalidateTags('user:42');
+ * ```
+ */
+export function invalidateTags(tags: string | string[], options: InvalidateTagsOptions = {}): void {
+  const { cache = defaultRequestCache } = options;
+  const targetTags = new Set(Array.isArray(tags) ? tags : [tags]);
+
+  for (const key of cache.keys()) {
+    const entry = cache.get(key);
+    if (entry?.tags?.some((tag) => targetTags.has(tag))) {
+      cache.set(key, { ...entry, invalidated: true });
+    }
+  }
+
+  clearSuspenseErrors(cache, (_key, record) => !!record.tags?.some((tag) => targetTags.has(tag)));
+}
@@ -0,0 +1,121 @@
+/**
+ * Cache key helpers shared by useRequest and the cache utilities
+ */
+
+import type { RequestCache, RequestCacheKey } from './types.js';
+
+function hashEntries(entries: Array<[string, string]>): string {
+  // Keys are unique, so the sorted pairs do not depend on insertion order
+  return `{${entries
+    .map(([key, value]) => `${key}:${value}`)
+    .sort()
+    .join(',')}}`;
+}
+
+function hashObject(value: object, ancestors: Set<object>): string {
+  if (value instanceof Date) {
+    return `Date(${value.getTime()})`;
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => hashValue(item, ancestors)).join(',')}]`;
+  }
+  if (value instanceof Map) {
+    const entries = [...value].map(([key, item]): [string, string] => [
+      hashValue(key, ancestors),
+      hashValue(item, ancestors),
+    ]);
+    return `Map${hashEntries(entries)}`;
+  }
+  if (value instanceof Set) {
+    const items = [...value].map((item) => hashValue(item, ancestors)).sort();
+    return `Set[${items.join(',')}]`;
+  }
+  if ('toJSON' in value && typeof value.toJSON === 'function') {
+    return hashValue(value.toJSON(), ancestors);
+  }
+
+  // Properties set to undefined are treated as missing, like JSON does
+  const entries = Object.entries(value)
+    .filter(([, item]) => item !== undefined)
+    .map(([key, item]): [string, string] => [JSON.stringify(key), hashValue(item, ancestors)]);
+  return hashEntries(entries);
+}
+
+function hashValue(value: unknown, ancestors: Set<object>): string {
+  if (typeof value === 'bigint') {
+    return `${value}n`;
+  }
+  if (typeof value === 'string') {
+    return JSON.stringify(value);
+  }
+  if (typeof value !== 'object' || value === null) {
+    // Functions and symbols have no stable identity across renders, so they are ignored
+    return typeof value === 'function' || typeof value === 'symbol' ? 'undefined' : String(value);
+  }
+  if (ancestors.has(value)) {
+    return '[Circular]';
+  }
+
+  ancestors.add(value);
+  const hash = hashObject(value, ancestors);
+  ancestors.delete(value);
+  return hash;
+}
+
+/**
+ * Serialize request params into a deterministic string
+ *
+ * JSON-compatible params produce their JSON with object keys sorted, so `{ a, b }` and
+ * `{ b, a }` hash the same. Dates, Maps, Sets, BigInts, undefined, NaN and circular
+ * references get distinct representations instead of collapsing or throwing.
+ *
+ * @internal
+ */
+export function hashRequestParams(parameters: readonly unknown[]): string {
+  return hashValue(parameters, new Set());
+}
+
+/**
+ * Build the cache entry key for a cacheKey and request params
+ *
+ * @internal
+ */
+export function getRequestCacheKey<TParameters extends readonly unknown[]>(
+  cacheKey: RequestCacheKey<TParameters>,
+  parameters: TParameters
+): string {
+  if (typeof cacheKey === 'function') {
+    return cacheKey(...parameters);
+  }
+  return `${cacheKey}-${hashRequestParams(parameters)}`;
+}
+
+/**
+ * Check whether a cache entry key was built from the given cacheKey
+ *
+ * Keys returned by a function cacheKey only match themselves.
+ *
+ * @internal
+ */
+export function isRequestCacheKeyOf(key: string, cacheKey: string): boolean {
+  // Params always hash to an array, so the key continues with `-[`
+  return key === cacheKey || key.startsWith(`${cacheKey}-[`);
+}
+
+/**
+ * List the cache entry keys targeted by a cacheKey and optional params
+ *
+ * With params, the single matching key is returned even if no entry exists yet.
+ *
+ * @internal
+ */
+export function findRequestCacheKeys(
+  cache: RequestCache,
+  cacheKey: string,
+  parameters?: readonly unknown[]
+): string[] {
+  if (parameters) {
+    return [getRequestCacheKey(cacheKey, parameters)];
+  }
+  return cache.keys().filter((key) => isRequestCacheKeyOf(key, cacheKey));
+}
@@ -0,0 +1,50 @@
+/**
+ * Imperative cache updates usable outside React
+ */
+
+import { defaultRequestCache, writeRequestCacheData } from './cache.js';
+import { findRequestCacheKeys } from './keys.js';
+import type { RequestCache } from './types.js';
+
+/**
+ * Options for mutateCache
+ */
+export type MutateCacheOptions = {
+  /** Only update the entry for these params (all entries of the cacheKey are updated when omitted) */
+  params?: readonly unknown[];
+  /** Cache to update (defaults to the shared cache used without a RequestCacheProvider) */
+  cache?: RequestCache;
+};
+
+/**
+ * Update cached useRequest data and notify every mounted consumer of the key
+ *
+ * @template TData - The cached data type
+ * @param cacheKey - The `cacheKey` passed to useRequest
+ * @param updater - New data, or a function receiving the current data
+ * @param options - Params and cache to target
+ *
+ * @example
+ * ```ts
+ * socket.on('user:updated', (user) => {
+ *   mutateCache<User>('user', user, { params: [user.id] });
+ * });
+ *
+ * mutateCache<Todo[]>('todos', (todos = []) => [...todos, newTodo]);
+ * ```
+ */
+export function mutateCache<TData>(
+  cacheKey: string,
+  updater: TData | ((oldData: TData | undefined) => TData),
+  options: MutateCacheOptions = {}
+): void {
+  const { params, cache = defaultRequestCache } = options;
+  for (const key of findRequestCacheKeys(cache, cacheKey, params)) {
+    const oldData = cache.get(key)?.data as TData | undefined;
+    const data =
+      typeof updater === 'function'
+        ? (updater as (oldData: TData | undefined) => TData)(oldData)
+        : updater;
+    writeRequestCacheData(cache, key, data);
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * Polling for useRequest
+ */
+
+import { type MutableRefObject, useEffect } from 'react';
+
+import { useUpdateEffect } from '../../lifecycle/useUpdateEffect.js';
+import { useLatest } from '../../state/useLatest.js';
+
+/**
+ * Polling options of useRequest
+ *
+ * @internal
+ */
+export type PollingConfig<TData> = {
+  pollingInterval: number | undefined;
+  pollingWhenHidden: boolean;
+  pollingErrorRetryCount: number | undefined;
+  stopPollingWhen: ((data: TData) => boolean) | undefined;
+};
+
+/**
+ * Request state polling reacts to
+ *
+ * @internal
+ */
+export type PollingState<TData> = {
+  data: TData | undefined;
+  isValidating: boolean;
+  /** Consecutive failed requests, reset by a successful one */
+  errorCount: MutableRefObject<number>;
+  /** Whether the page is visible */
+  isVisible: boolean;
+};
+
+const MAX_POLLING_BACKOFF = 60 * 1000;
+
+function getPollingDelay(pollingInterval: number, errorCount: number): number {
+  if (errorCount === 0) {
+    return pollingInterval;
+  }
+  // Back off exponentially after failed polls, never below the interval itself
+  const backoff = Math.min(pollingInterval * 2 ** errorCount, MAX_POLLING_BACKOFF);
+  return Math.max(pollingInterval, backoff);
+}
+
+function shouldKeepPolling<TData>(
+  config: PollingConfig<TData>,
+  data: TData | undefined,
+  errorCount: number
+): boolean {
+  const { pollingErrorRetryCount, stopPollingWhen } = config;
+  if (pollingErrorRetryCount !== undefined && errorCount > pollingErrorRetryCount) {
+    return false;
+  }
+  return data === undefined || !stopPollingWhen?.(data);
+}
+
+/**
+ * Refresh a request `pollingInterval` after the previous one settled
+ *
+ * Nothing is scheduled while a request is in flight, so polls never overlap. Failed
+ * polls back off exponentially and stop after `pollingErrorRetryCount` consecutive
+ * failures; `stopPollingWhen` stops polling for the current data. While the page is
+ * hidden polling pauses (unless `pollingWhenHidden`) and it refreshes as soon as the
+ * page is visible again.
+ *
+ * @internal
+ */
+export function usePollingEffect<TData>(
+  config: PollingConfig<TData>,
+  state: PollingState<TData>,
+  refresh: () => void
+): void {
+  const latestConfig = useLatest(config);
+  const { pollingInterval, pollingWhenHidden } = config;
+  const { data, isValidating, errorCount, isVisible } = state;
+  const isPaused = !isVisible && !pollingWhenHidden;
+
+  useEffect(() => {
+    const errors = errorCount.current;
+    if (!pollingInterval || isValidating || isPaused) {
+      return;
+    }
+    if (!shouldKeepPolling(latestConfig.current, data, errors)) {
+      return;
+    }
+
+    const timerId = setTimeout(refresh, getPollingDelay(pollingInterval, errors));
+    return () => clearTimeout(timerId);
+  }, [data, errorCount, isPaused, isValidating, latestConfig, pollingInterval, refresh]);
+
+  useUpdateEffect(() => {
+    const { current } = latestConfig;
+    if (
+      isVisible &&
+      !isValidating &&
+      current.pollingInterval &&
+      !current.pollingWhenHidden &&
+      shouldKeepPolling(current, data, errorCount.current)
+    ) {
+      refresh();
+    }
+  }, [isVisible]);
+}
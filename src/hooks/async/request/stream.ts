@@ -0,0 +1,72 @@
+/**
+ * Reading ReadableStream and AsyncIterable responses chunk by chunk
+ */
+
+import { abortable } from '../../../utils/abort.js';
+import type { StreamSource } from '../useStreamingRequest.js';
+
+/**
+ * A stream whose first chunk has been read
+ *
+ * @internal
+ */
+export type OpenedStream<TChunk> = {
+  first: IteratorResult<TChunk>;
+  iterator: AsyncIterator<TChunk>;
+};
+
+function toAsyncIterator<TChunk>(source: StreamSource<TChunk>): AsyncIterator<TChunk> {
+  if (Symbol.asyncIterator in source) {
+    return source[Symbol.asyncIterator]();
+  }
+
+  // Not every browser makes ReadableStream async iterable
+  const reader = source.getReader();
+  return {
+    next: () => reader.read() as Promise<IteratorResult<TChunk>>,
+    return: async () => {
+      await reader.cancel();
+      return { done: true, value: undefined };
+    },
+  };
+}
+
+/**
+ * Stop reading a stream, cancelling the underlying source
+ *
+ * @internal
+ */
+export function closeStream(iterator: AsyncIterator<unknown>): void {
+  iterator.return?.().catch(() => undefined);
+}
+
+/**
+ * Read the next chunk, rejecting as soon as the signal aborts
+ *
+ * @internal
+ */
+export function readStreamChunk<TChunk>(
+  iterator: AsyncIterator<TChunk>,
+  signal: AbortSignal
+): Promise<IteratorResult<TChunk>> {
+  return abortable(iterator.next(), signal);
+}
+
+/**
+ * Wait for the first chunk of a stream, so failures before it can be retried
+ *
+ * @internal
+ */
+export async function openStream<TChunk>(
+  source: StreamSource<TChunk>,
+  signal: AbortSignal
+): Promise<OpenedStream<TChunk>> {
+  const iterator = toAsyncIterator(source);
+  try {
+    const first = await readStreamChunk(iterator, signal);
+    return { first, iterator };
+  } catch (error) {
+    closeStream(iterator);
+    throw error;
+  }
+}
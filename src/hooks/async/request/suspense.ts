@@ -0,0 +1,52 @@
+/**
+ * Suspended requests shared by useSuspenseRequest and the cache invalidation helpers
+ */
+
+import type { RequestCache } from './types.js';
+
+/**
+ * Request a suspended render waits for, or the error it failed with
+ *
+ * @internal
+ */
+export type SuspenseRecord = {
+  promise: Promise<void>;
+  error?: Error;
+  /** The `cacheKey` option of the request, so function keys can be reset by identity */
+  cacheKey: unknown;
+  /** Tags of the request, for invalidateTags */
+  tags?: string[];
+};
+
+const suspenseRecords = new WeakMap<RequestCache, Map<string, SuspenseRecord>>();
+
+/**
+ * Suspense records of a cache, by cache entry key
+ *
+ * @internal
+ */
+export function getSuspenseRecords(cache: RequestCache): Map<string, SuspenseRecord> {
+  let records = suspenseRecords.get(cache);
+  if (!records) {
+    records = new Map();
+    suspenseRecords.set(cache, records);
+  }
+  return records;
+}
+
+/**
+ * Forget the failures of the targeted suspense requests so their next render fetches again
+ *
+ * @internal
+ */
+export function clearSuspenseErrors(
+  cache: RequestCache,
+  isTarget: (key: string, record: SuspenseRecord) => boolean
+): void {
+  const records = suspenseRecords.get(cache);
+  for (const [key, record] of records ?? []) {
+    if (record.error && isTarget(key, record)) {
+      records?.delete(key);
+    }
+  }
+}
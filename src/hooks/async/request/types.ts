@@ -0,0 +1,121 @@
+/**
+ * Request cache types and interfaces
+ */
+
+import type { StorageType } from '../../browser/storage/types.js';
+
+/**
+ * A single cached request result
+ */
+export type RequestCacheEntry = {
+  /** Cached response data */
+  data: unknown;
+  /** Time the data was stored (milliseconds since epoch) */
+  timestamp: number;
+  /** Set by invalidateCache: the data is stale and mounted consumers refetch it */
+  invalidated?: boolean;
+  /** Tags the entry can be invalidated by with invalidateTags */
+  tags?: string[];
+};
+
+/**
+ * Cache key of a request: a prefix combined with a hash of the params, or a function
+ * building the whole key from the params
+ */
+export type RequestCacheKey<TParameters extends readonly unknown[] = unknown[]> =
+  string | ((...parameters: TParameters) => string);
+
+/**
+ * Listener notified when a cache entry is set or deleted
+ */
+export type RequestCacheListener = (entry: RequestCacheEntry | undefined) => void;
+
+/**
+ * Storage contract used by useRequest for caching responses
+ *
+ * Implementations must notify the subscribers of a key whenever that key is set or deleted.
+ */
+export type RequestCache = {
+  /** Read the entry stored under a key */
+  get: (key: string) => RequestCacheEntry | undefined;
+  /** Store an entry under a key */
+  set: (key: string, entry: RequestCacheEntry) => void;
+  /** Remove the entry stored under a key */
+  delete: (key: string) => void;
+  /** List all stored keys */
+  keys: () => string[];
+  /** Subscribe to changes of a key, returns an unsubscribe function */
+  subscribe: (key: string, listener: RequestCacheListener) => () => void;
+};
+
+/**
+ * Options for the LRU-bounded request cache
+ */
+export type LruRequestCacheOptions = {
+  /** Maximum number of entries kept before the least recently used one is evicted */
+  maxEntries: number;
+};
+
+/**
+ * Options for the storage-backed request cache
+ */
+export type StorageRequestCacheOptions = {
+  /**
+   * Web storage to persist entries in
+   * @default 'localStorage'
+   */
+  type?: StorageType;
+  /**
+   * Prefix added to every storage key
+   * @default 'kitium:request:'
+   */
+  prefix?: string;
+};
+
+/**
+ * Serializable snapshot of a request cache, produced by dehydrateRequestCache
+ */
+export type DehydratedRequestCache = {
+  /** Cache entries by entry key */
+  entries: Array<[key: string, entry: RequestCacheEntry]>;
+};
+
+/**
+ * Lifecycle stage reported by onRequestEvent
+ *
+ * - `'cache-hit'`: fresh cached data was returned without calling the service
+ * - `'dedup'`: the call joined a request already in flight for the same key
+ * - `'start'`: the service was called
+ * - `'retry'`: an attempt failed and the service will be called again after `delay`
+ * - `'success'`: the service resolved
+ * - `'error'`: the service rejected and no retry is left
+ * - `'cancel'`: the request was aborted
+ */
+export type RequestEventType =
+  'cache-hit' | 'dedup' | 'start' | 'retry' | 'success' | 'error' | 'cancel';
+
+/**
+ * Request lifecycle event
+ */
+export type RequestEvent = {
+  type: RequestEventType;
+  /** Cache entry key (undefined for requests without a cacheKey) */
+  key: string | undefined;
+  /** Params passed to the service */
+  params: readonly unknown[];
+  /** Time the event was emitted (milliseconds since epoch) */
+  timestamp: number;
+  /** Milliseconds since the request started (retry, success, error and cancel) */
+  duration?: number;
+  /** Retry attempt about to be made, 1-based (retry) */
+  attempt?: number;
+  /** Milliseconds until the retry (retry) */
+  delay?: number;
+  /** Error of the failed attempt (retry, error and cancel) */
+  error?: Error;
+};
+
+/**
+ * Listener registered with onRequestEvent
+ */
+export type RequestEventListener = (event: RequestEvent) => void;
@@ -0,0 +1,6 @@
+/**
+ * Retry policies shared by the async hooks
+ */
+
+export { isRetryableError } from './policy.js';
+export type { RetryJitter, RetryPolicy } from './types.js';
@@ -0,0 +1,99 @@
+/**
+ * Retry decisions for RetryPolicy
+ */
+
+import type { RetryPolicy } from './types.js';
+
+const NON_RETRYABLE_MIN_STATUS = 400;
+const NON_RETRYABLE_MAX_STATUS = 499;
+const RETRYABLE_CLIENT_STATUSES = new Set([408, 429]);
+
+function getErrorProperty(error: Error, property: 'retryAfter' | 'status'): unknown {
+  return (error as Error & Partial<Record<typeof property, unknown>>)[property];
+}
+
+/**
+ * Default retry classifier
+ *
+ * Errors carrying an HTTP `status` in the 4xx range are not retried, except for
+ * 408 Request Timeout and 429 Too Many Requests. Every other error is retried.
+ *
+ * @param error - The error thrown by the failed attempt
+ * @returns Whether the error is worth retrying
+ */
+export function isRetryableError(error: Error): boolean {
+  const status = getErrorProperty(error, 'status');
+  if (typeof status !== 'number') {
+    return true;
+  }
+  if (status < NON_RETRYABLE_MIN_STATUS || status > NON_RETRYABLE_MAX_STATUS) {
+    return true;
+  }
+  return RETRYABLE_CLIENT_STATUSES.has(status);
+}
+
+function getRetryAfter(error: Error): number | undefined {
+  const retryAfter = getErrorProperty(error, 'retryAfter');
+  if (typeof retryAfter === 'number' && retryAfter >= 0) {
+    return retryAfter;
+  }
+  if (retryAfter instanceof Date) {
+    return Math.max(0, retryAfter.getTime() - Date.now());
+  }
+  return undefined;
+}
+
+function getBaseDelay(policy: RetryPolicy, attempt: number, error: Error): number {
+  const { delay } = policy;
+  if (typeof delay === 'function') {
+    return delay(attempt, error);
+  }
+  if (typeof delay === 'number') {
+    return delay;
+  }
+  return Math.min(1000 * 2 ** (attempt - 1), 30000);
+}
+
+function applyJitter(delay: number, jitter: RetryPolicy['jitter']): number {
+  if (jitter === 'full') {
+    return Math.random() * delay;
+  }
+  if (jitter === 'equal') {
+    return delay / 2 + (Math.random() * delay) / 2;
+  }
+  return delay;
+}
+
+/**
+ * Compute the delay before a retry, or undefined when the policy gives up
+ *
+ * @param policy - Retry policy
+ * @param attempt - The retry about to be made (1-based)
+ * @param error - The error thrown by the previous attempt
+ * @param elapsed - Milliseconds since the first attempt started
+ * @returns Delay in milliseconds, or undefined to stop retrying
+ *
+ * @internal
+ */
+export function getRetryDelay(
+  policy: RetryPolicy,
+  attempt: number,
+  error: Error,
+  elapsed: number
+): number | undefined {
+  const { count = 0, shouldRetry = isRetryableError, respectRetryAfter = true } = policy;
+  if (attempt > count || !shouldRetry(error, attempt)) {
+    return undefined;
+  }
+
+  let delay = applyJitter(getBaseDelay(policy, attempt, error), policy.jitter);
+  const retryAfter = respectRetryAfter ? getRetryAfter(error) : undefined;
+  if (retryAfter !== undefined) {
+    delay = Math.max(delay, retryAfter);
+  }
+
+  if (policy.maxElapsedTime !== undefined && elapsed + delay > policy.maxElapsedTime) {
+    return undefined;
+  }
+  return delay;
+}
@@ -0,0 +1,45 @@
+/**
+ * Retry policy types shared by the async hooks
+ */
+
+/**
+ * Randomization applied to retry delays
+ *
+ * - `'none'`: use the computed delay as is
+ * - `'full'`: a random delay between 0 and the computed delay
+ * - `'equal'`: half the computed delay plus a random share of the other half
+ */
+export type RetryJitter = 'none' | 'full' | 'equal';
+
+/**
+ * When and how long to wait before retrying a failed async call
+ *
+ * Errors may carry a `retryAfter` hint (milliseconds, or a Date) such as the one parsed
+ * from a `Retry-After` response header; the policy never retries sooner than the hint.
+ */
+export type RetryPolicy = {
+  /** Maximum number of retries after the first attempt */
+  count?: number;
+  /**
+   * Delay before a retry in milliseconds, or a function of the retry attempt (1-based)
+   * @default exponential backoff starting at 1000ms, capped at 30000ms
+   */
+  delay?: number | ((attempt: number, error: Error) => number);
+  /**
+   * Randomization applied to the delay to spread out retries from many clients
+   * @default 'none'
+   */
+  jitter?: RetryJitter;
+  /** Stop retrying once the next retry would start later than this many milliseconds after the first attempt */
+  maxElapsedTime?: number;
+  /**
+   * Decide whether an error is worth retrying
+   * @default isRetryableError (client errors other than 408 and 429 are not retried)
+   */
+  shouldRetry?: (error: Error, attempt: number) => boolean;
+  /**
+   * Wait at least as long as the `retryAfter` hint attached to an error
+   * @default true
+   */
+  respectRetryAfter?: boolean;
+};
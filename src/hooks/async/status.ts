@@ -0,0 +1,39 @@
+/**
+ * Status of the async state hooks
+ */
+
+/**
+ * Lifecycle of an async operation
+ *
+ * - `'idle'`: not started (or disabled before it settled)
+ * - `'pending'`: running
+ * - `'success'`: resolved with `value`
+ * - `'error'`: rejected with `error`
+ */
+export type AsyncStatus = 'idle' | 'pending' | 'success' | 'error';
+
+/**
+ * Async state discriminated by `status`, so each branch has precise types
+ *
+ * A pending state may still hold the value (and error) of the previous run.
+ *
+ * @template TValue - Resolved value type
+ * @template TEmpty - Placeholder of a missing value or error (null or undefined)
+ *
+ * @example
+ * ```tsx
+ * switch (state.status) {
+ *   case 'success':
+ *     return <Profile user={state.value} />;
+ *   case 'error':
+ *     return <ErrorMessage error={state.error} />;
+ *   default:
+ *     return <Spinner />;
+ * }
+ * ```
+ */
+export type AsyncStatusState<TValue, TEmpty extends null | undefined> =
+  | { status: 'idle'; loading: false; error: TEmpty; value: TEmpty }
+  | { status: 'pending'; loading: true; error: Error | TEmpty; value: TValue | TEmpty }
+  | { status: 'success'; loading: false; error: TEmpty; value: TValue }
+  | { status: 'error'; loading: false; error: Error; value: TValue | TEmpty };
@@ -0,0 +1,23 @@
+/**
+ * Error thrown when an async operation exceeds its `timeout`
+ *
+ * It is also the reason of the aborted signal, so services reading `signal.reason`
+ * can tell a timeout from a cancellation.
+ *
+ * @example
+ * ```ts
+ * if (error instanceof TimeoutError) {
+ *   showToast(`Gave up after ${error.timeout}ms`);
+ * }
+ * ```
+ */
+export class TimeoutError extends Error {
+  /** The exceeded time limit in milliseconds */
+  readonly timeout: number;
+
+  constructor(timeout: number, message = `The operation timed out after ${timeout}ms`) {
+    super(message);
+    this.name = 'TimeoutError';
+    this.timeout = timeout;
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * Timeout enforcement shared by the async hooks
+ */
+
+import { abortable } from '../../../utils/abort.js';
+import { TimeoutError } from './TimeoutError.js';
+import type { RequestTimeout } from './types.js';
+
+/**
+ * Signal aborted by its parent or, with a TimeoutError, once the timeout elapses
+ *
+ * @internal
+ */
+export type TimeoutSignal = {
+  signal: AbortSignal;
+  /** Stop the timer and detach from the parent signal */
+  clear: () => void;
+};
+
+function hasTimeout(timeout: number | undefined): timeout is number {
+  return timeout !== undefined && Number.isFinite(timeout);
+}
+
+/**
+ * Derive a signal that also aborts after a timeout
+ *
+ * Without a (finite) timeout, the parent signal is returned unchanged.
+ *
+ * @internal
+ */
+export function createTimeoutSignal(
+  parent: AbortSignal | undefined,
+  timeout: number | undefined
+): TimeoutSignal {
+  if (!hasTimeout(timeout)) {
+    return { signal: parent ?? new AbortController().signal, clear: () => undefined };
+  }
+
+  const controller = new AbortController();
+  const handleAbort = (): void => {
+    controller.abort(parent?.reason);
+  };
+  if (parent?.aborted) {
+    handleAbort();
+  }
+  parent?.addEventListener('abort', handleAbort, { once: true });
+  const timerId = setTimeout(() => {
+    controller.abort(new TimeoutError(timeout));
+  }, timeout);
+
+  return {
+    signal: controller.signal,
+    clear: () => {
+      clearTimeout(timerId);
+      parent?.removeEventListener('abort', handleAbort);
+    },
+  };
+}
+
+/**
+ * Run an async function, rejecting with a TimeoutError once the timeout elapses
+ *
+ * With or without a timeout, the returned promise rejects as soon as the signal aborts.
+ *
+ * @param function_ - Work to run, receives the signal aborted on timeout
+ * @param timeout - Time limit in milliseconds (none when undefined)
+ * @param signal - Optional parent signal that cancels the work
+ *
+ * @internal
+ */
+export async function runWithTimeout<T>(
+  function_: (signal: AbortSignal) => Promise<T>,
+  timeout: number | undefined,
+  signal?: AbortSignal
+): Promise<T> {
+  const timeoutSignal = createTimeoutSignal(signal, timeout);
+  try {
+    return await abortable(function_(timeoutSignal.signal), timeoutSignal.signal);
+  } finally {
+    timeoutSignal.clear();
+  }
+}
+
+/**
+ * Normalize the `timeout` option of the request hooks (a number limits each attempt)
+ *
+ * @internal
+ */
+export function resolveRequestTimeout(timeout: number | RequestTimeout): RequestTimeout {
+  return typeof timeout === 'number' ? { attempt: timeout } : timeout;
+}
@@ -0,0 +1,6 @@
+/**
+ * Timeouts shared by the async hooks
+ */
+
+export { TimeoutError } from './TimeoutError.js';
+export type { RequestTimeout } from './types.js';
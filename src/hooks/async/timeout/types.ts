@@ -0,0 +1,13 @@
+/**
+ * Timeout types shared by the async hooks
+ */
+
+/**
+ * Time limits of a request that may be retried
+ */
+export type RequestTimeout = {
+  /** Time limit of each attempt in milliseconds; a timed out attempt can be retried */
+  attempt?: number;
+  /** Time limit of the whole request, including retries and their delays, in milliseconds */
+  total?: number;
+};
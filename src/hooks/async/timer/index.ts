@@ -0,0 +1,5 @@
+/**
+ * Timers shared by useInterval and useTimeout
+ */
+
+export type { TimerControls, TimerScheduler, UseTimerOptions } from './types.js';
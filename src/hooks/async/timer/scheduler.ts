@@ -0,0 +1,123 @@
+import type { TimerScheduler } from './types.js';
+
+/**
+ * Timer created by createTimer
+ *
+ * @internal
+ */
+export type Timer = {
+  pause: () => void;
+  resume: () => void;
+  reset: () => void;
+  remaining: () => number;
+  stop: () => void;
+};
+
+/**
+ * Options for createTimer
+ *
+ * @internal
+ */
+export type TimerOptions = {
+  delay: number;
+  /** Fire every `delay` instead of once */
+  repeat: boolean;
+  /** Create the timer paused */
+  paused: boolean;
+  scheduler: TimerScheduler;
+  onTick: () => void;
+};
+
+/**
+ * Scheduler backed by `performance.now()` (falling back to `Date.now()`) and setTimeout
+ *
+ * @internal
+ */
+export const DEFAULT_TIMER_SCHEDULER: TimerScheduler = {
+  now: () => (typeof performance === 'undefined' ? Date.now() : performance.now()),
+  schedule: (callback, delay) => {
+    const id = setTimeout(callback, delay);
+    return () => clearTimeout(id);
+  },
+};
+
+/**
+ * Due time of the tick after the one due at `dueAt`, skipping the ticks already missed
+ */
+function getNextDueTime(dueAt: number, delay: number, now: number): number {
+  const missedTicks = delay > 0 ? Math.floor((now - dueAt) / delay) : 0;
+  return dueAt + (missedTicks + 1) * delay;
+}
+
+/**
+ * Create a pausable timer firing once or every `delay` milliseconds
+ *
+ * Repeating timers schedule each tick from the time the previous one was due rather than
+ * when it ran, so timer lateness does not accumulate; ticks missed entirely (e.g. while the
+ * tab was throttled) are skipped.
+ *
+ * @internal
+ */
+// eslint-disable-next-line max-lines-per-function -- Controls share the timer state in this closure.
+export function createTimer(options: TimerOptions): Timer {
+  const { delay, repeat, scheduler, onTick } = options;
+  let cancel: (() => void) | undefined;
+  let dueAt = 0;
+  let paused = options.paused;
+  // Time left when paused, undefined when nothing was scheduled
+  let pausedRemaining: number | undefined = delay;
+
+  const clear = (): void => {
+    cancel?.();
+    cancel = undefined;
+  };
+
+  const getRemaining = (): number => (cancel ? Math.max(0, dueAt - scheduler.now()) : 0);
+
+  const scheduleAt = (time: number, now = scheduler.now()): void => {
+    clear();
+    dueAt = time;
+    cancel = scheduler.schedule(tick, Math.max(0, time - now));
+  };
+
+  function tick(): void {
+    cancel = undefined;
+    if (repeat) {
+      // A timer firing early counts as on time, so the next one keeps the full delay
+      const now = Math.max(scheduler.now(), dueAt);
+      scheduleAt(getNextDueTime(dueAt, delay, now), now);
+    }
+    onTick();
+  }
+
+  if (!paused) {
+    scheduleAt(scheduler.now() + delay);
+  }
+
+  return {
+    pause() {
+      if (!paused) {
+        paused = true;
+        pausedRemaining = cancel ? getRemaining() : undefined;
+        clear();
+      }
+    },
+    resume() {
+      if (paused) {
+        paused = false;
+        if (pausedRemaining !== undefined) {
+          scheduleAt(scheduler.now() + pausedRemaining);
+        }
+      }
+    },
+    reset() {
+      if (paused) {
+        pausedRemaining = delay;
+      } else {
+        scheduleAt(scheduler.now() + delay);
+      }
+    },
+    remaining: () => (paused ? (pausedRemaining ?? 0) : getRemaining()),
+    stop: clear,
+  };
+}
@@ -0,0 +1,40 @@
+/**
+ * Timer types shared by useInterval and useTimeout
+ */
+
+/**
+ * Clock and timer functions used by the timer hooks, replaceable in tests
+ */
+export type TimerScheduler = {
+  /** Current time in milliseconds, from a monotonic clock */
+  now: () => number;
+  /** Call `callback` after `delay` milliseconds, returning a function cancelling it */
+  schedule: (callback: () => void, delay: number) => () => void;
+};
+
+/**
+ * Options shared by useInterval and useTimeout
+ */
+export type UseTimerOptions = {
+  /**
+   * Clock and timers to use
+   * @default performance.now() with setTimeout
+   */
+  scheduler?: TimerScheduler;
+};
+
+/**
+ * Controls returned by useInterval and useTimeout
+ */
+export type TimerControls = {
+  /** Whether the timer is paused */
+  paused: boolean;
+  /** Stop the countdown, keeping the time left */
+  pause: () => void;
+  /** Continue the countdown where it was paused */
+  resume: () => void;
+  /** Restart the countdown from the full delay (also re-arms a timeout that has fired) */
+  reset: () => void;
+  /** Milliseconds left until the callback is called, 0 when nothing is scheduled */
+  remaining: () => number;
+};
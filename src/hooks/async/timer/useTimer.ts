@@ -0,0 +1,79 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+import { useLatest } from '../../state/useLatest.js';
+import { createTimer, DEFAULT_TIMER_SCHEDULER, type Timer } from './scheduler.js';
+import type { TimerControls, UseTimerOptions } from './types.js';
+
+/**
+ * Options of the timer behind useInterval and useTimeout
+ *
+ * @internal
+ */
+export type TimerHookOptions = UseTimerOptions & {
+  /** Call the callback every `delay` instead of once */
+  repeat: boolean;
+  /** Call the callback when the timer starts */
+  immediate?: boolean;
+};
+
+/**
+ * Hook that calls a callback once or every `delay` milliseconds, with pause controls
+ *
+ * The timer restarts when `delay` changes and keeps its paused state.
+ *
+ * @internal
+ */
+export function useTimer(
+  callback: () => void,
+  delay: number | null,
+  options: TimerHookOptions
+): TimerControls {
+  const { repeat, immediate = false } = options;
+  const [paused, setPaused] = useState(false);
+
+  const timerReference = useRef<Timer>();
+  const latestCallback = useLatest(callback);
+  const latestPaused = useLatest(paused);
+  const latestScheduler = useLatest(options.scheduler ?? DEFAULT_TIMER_SCHEDULER);
+
+  useEffect(() => {
+    if (delay === null) {
+      return;
+    }
+    if (immediate && !latestPaused.current) {
+      latestCallback.current();
+    }
+
+    const timer = createTimer({
+      delay,
+      repeat,
+      paused: latestPaused.current,
+      scheduler: latestScheduler.current,
+      onTick: () => latestCallback.current(),
+    });
+    timerReference.current = timer;
+
+    return () => {
+      timer.stop();
+      timerReference.current = undefined;
+    };
+  }, [delay, repeat, immediate, latestCallback, latestPaused, latestScheduler]);
+
+  const pause = useCallback((): void => {
+    timerReference.current?.pause();
+    setPaused(true);
+  }, []);
+
+  const resume = useCallback((): void => {
+    timerReference.current?.resume();
+    setPaused(false);
+  }, []);
+
+  const reset = useCallback((): void => {
+    timerReference.current?.reset();
+  }, []);
+
+  const remaining = useCallback((): number => timerReference.current?.remaining() ?? 0, []);
+
+  return { paused, pause, resume, reset, remaining };
+}
@@ -1,68 +1,134 @@
-import { type DependencyList, useEffect, useState } from 'react';
+import { type DependencyList, useCallback, useEffect, useRef, useState } from 'react';
+
+import { useLatest } from '../state/useLatest.js';
+import type { AsyncStatusState } from './status.js';
+import { runWithTimeout } from './timeout/deadline.js';
 
 /**
  * Async state
  */
-export type AsyncState<T> = {
-  loading: boolean;
-  error: Error | null;
-  value: T | null;
+export type AsyncState<T> = AsyncStatusState<T, null>;
+
+/**
+ * Async result: the async state and a function running it again
+ */
+export type UseAsyncResult<T> = AsyncState<T> & {
+  /** Run the function again with the current deps, aborting a pending run */
+  reload: () => void;
+};
+
+/**
+ * Options for useAsync hook
+ */
+export type UseAsyncOptions<T = unknown> = {
+  /** Time limit in milliseconds after which `error` is set to a TimeoutError */
+  timeout?: number;
+  /**
+   * Keep the value of the last successful run while the function runs again (and when that
+   * run fails) instead of resetting it to null
+   * @default false
+   */
+  keepPreviousData?: boolean;
+  /**
+   * Whether to run the function; while disabled the state keeps its last result, or is idle
+   * @default true
+   */
+  enabled?: boolean;
+  /** Called when a run settles, unless it was aborted */
+  onSettled?: (value: T | null, error: Error | null) => void;
+};
+
+const IDLE_STATE: AsyncState<never> = {
+  status: 'idle',
+  loading: false,
+  error: null,
+  value: null,
 };
 
 /**
  * Hook that executes an async function and tracks its state
  *
+ * The function runs on mount and whenever `deps` change, unless `enabled` is false. It
+ * receives an AbortSignal aborted when `deps` change, on `reload()` and on unmount, so the
+ * superseded work can stop.
+ *
  * @template T - The return type of the async function
  * @param asyncFn - Async function to execute
  * @param deps - Dependency array (default: [])
- * @returns Async state object
+ * @param options - Async options
+ * @returns Async state and `reload`
  *
  * @example
  * ```tsx
- * const Component = () => {
- *   const { loading, error, value } = useAsync(async () => {
- *     const response = await fetch('/api/data');
- *     return response.json();
- *   });
+ * const Component = ({ userId }: { userId?: string }) => {
+ *   const state = useAsync(
+ *     async (signal): Promise<User> => {
+ *       const response = await fetch(`/api/users/${userId}`, { signal });
+ *       return response.json();
+ *     },
+ *     [userId],
+ *     { enabled: userId !== undefined, keepPreviousData: true }
+ *   );
  *
- *   if (loading) return <div>Loading...</div>;
- *   if (error) return <div>Error: {error.message}</div>;
- *   return <div>{JSON.stringify(value)}</div>;
+ *   switch (state.status) {
+ *     case 'idle':
+ *       return <div>Select a user</div>;
+ *     case 'pending':
+ *       return state.value ? <Profile user={state.value} stale /> : <div>Loading...</div>;
+ *     case 'error':
+ *       return <div>Error: {state.error.message}</div>;
+ *     case 'success':
+ *       return <Profile user={state.value} />;
+ *   }
  * };
  * ```
  */
+// eslint-disable-next-line max-lines-per-function -- Each run is aborted, settled and reported here.
 export function useAsync<T>(
-  asyncFunction: () => Promise<T>,
-  deps: DependencyList = []
-): AsyncState<T> {
-  const [state, setState] = useState<AsyncState<T>>({
-    loading: true,
-    error: null,
-    value: null,
-  });
+  asyncFunction: (signal: AbortSignal) => Promise<T>,
+  deps: DependencyList = [],
+  options: UseAsyncOptions<T> = {}
+): UseAsyncResult<T> {
+  const { timeout, keepPreviousData = false, enabled = true } = options;
+  const [state, setState] = useState<AsyncState<T>>(() =>
+    enabled ? { status: 'pending', loading: true, error: null, value: null } : IDLE_STATE
+  );
+  const [reloadCount, setReloadCount] = useState(0);
+  const settledReference = useRef<AsyncState<T>>(IDLE_STATE);
+  const latestOptions = useLatest(options);
 
   useEffect(() => {
-    let isCancelled = false;
+    if (!enabled) {
+      setState(settledReference.current);
+      return;
+    }
+
+    const controller = new AbortController();
+    const previousValue = keepPreviousData ? settledReference.current.value : null;
+    const settle = (nextState: AsyncState<T>): void => {
+      if (controller.signal.aborted) {
+        return;
+      }
+      settledReference.current = nextState;
+      setState(nextState);
+      latestOptions.current.onSettled?.(
+        nextState.status === 'success' ? nextState.value : null,
+        nextState.error
+      );
+    };
 
-    setState({ loading: true, error: null, value: null });
+    setState({ status: 'pending', loading: true, error: null, value: previousValue });
 
     const run = async (): Promise<void> => {
       try {
-        const value = await asyncFunction();
-        if (isCancelled) {
-          return;
-        }
-
-        setState({ loading: false, error: null, value });
+        const value = await runWithTimeout(asyncFunction, timeout, controller.signal);
+        settle({ status: 'success', loading: false, error: null, value });
       } catch (error) {
-        if (isCancelled) {
-          return;
-        }
-
-        setState({
+        settle({
+          status: 'error',
           loading: false,
           error: error instanceof Error ? error : new Error(String(error)),
-          value: null,
+          value: previousValue,
         });
       }
     };
@@ -70,9 +136,13 @@ export function useAsync<T>(
     void run();
 
     return () => {
-      isCancelled = true;
+      controller.abort();
     };
-  }, deps); // eslint-disable-line react-hooks/exhaustive-deps -- `deps` is caller-controlled for this hook.
+  }, [...deps, enabled, reloadCount]); // eslint-disable-line react-hooks/exhaustive-deps -- `deps` is caller-controlled for this hook.
+
+  const reload = useCallback((): void => {
+    setReloadCount((count) => count + 1);
+  }, []);
 
-  return state;
+  return { ...state, reload };
 }
@@ -1,63 +1,223 @@
-import { useCallback, useState } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
 
 import { logHookError } from '../../utils/errorLogging.js';
+import { useLatest } from '../state/useLatest.js';
+import type { AsyncStatusState } from './status.js';
+import { runWithTimeout } from './timeout/deadline.js';
+import type { RequestContext } from './useRequest.js';
 
 /**
  * Async function state
  */
-export type AsyncFunctionState<T> = {
-  loading: boolean;
-  error: Error | undefined;
-  value: T | undefined;
+export type AsyncFunctionState<T> = AsyncStatusState<T, undefined> & {
+  /** Calls running or waiting for their turn */
+  pendingCount: number;
 };
 
+type SettledState<T> = Exclude<AsyncStatusState<T, undefined>, { status: 'pending' }>;
+
+/**
+ * How overlapping calls of useAsyncFunction are handled
+ *
+ * - `'parallel'`: calls run side by side, up to `maxConcurrency` at a time; each result
+ *   is written to the state as it settles
+ * - `'takeLatest'`: a call supersedes the pending ones, whose signals are aborted and
+ *   whose results are dropped
+ * - `'takeFirst'`: calls made while one is pending are ignored
+ * - `'queue'`: calls run one at a time, in call order
+ */
+export type AsyncConcurrency = 'parallel' | 'takeLatest' | 'takeFirst' | 'queue';
+
+/**
+ * Options for useAsyncFunction hook
+ */
+export type UseAsyncFunctionOptions = {
+  /** Time limit of each call in milliseconds, after which it fails with a TimeoutError */
+  timeout?: number;
+  /**
+   * How overlapping calls are handled
+   * @default 'parallel'
+   */
+  concurrency?: AsyncConcurrency;
+  /**
+   * Calls running at once with the `'parallel'` strategy; later calls wait for a slot
+   * @default Infinity
+   */
+  maxConcurrency?: number;
+  /**
+   * Pass a `RequestContext` with an AbortSignal to the function, appended after the args.
+   * The signal aborts when the call is superseded, times out or the component unmounts.
+   */
+  withSignal?: boolean;
+};
+
+type CallSlots = {
+  /** Wait until fewer than `limit` calls run, in call order */
+  acquire: (limit: number) => Promise<void>;
+  /** Hand the slot to the next waiting call, or free it */
+  release: () => void;
+};
+
+function createCallSlots(): CallSlots {
+  let active = 0;
+  const waiting: Array<() => void> = [];
+
+  return {
+    acquire(limit) {
+      if (active < limit && waiting.length === 0) {
+        active += 1;
+        return Promise.resolve();
+      }
+      return new Promise<void>((resolve) => {
+        waiting.push(resolve);
+      });
+    },
+    release() {
+      const next = waiting.shift();
+      if (next) {
+        next();
+      } else {
+        active -= 1;
+      }
+    },
+  };
+}
+
+function getConcurrencyLimit(concurrency: AsyncConcurrency, maxConcurrency: number): number {
+  if (concurrency === 'queue') {
+    return 1;
+  }
+  return concurrency === 'parallel' ? maxConcurrency : Infinity;
+}
+
 /**
  * Hook that provides manual control over async function execution
  *
  * @template TArgs - The argument types for the async function
  * @template TResult - The return type of the async function
  * @param fn - Async function to execute
- * @returns Tuple of [state, callback]
+ * @param options - Async function options
+ * @returns Tuple of [state, callback]; the callback resolves with undefined when the call
+ * fails, is ignored or is superseded
  *
  * @example
  * ```tsx
- * const [state, fetchUser] = useAsyncFn(async (userId: string) => {
- *   const response = await fetch(`/api/users/${userId}`);
- *   return response.json();
- * });
+ * const [state, search] = useAsyncFn(
+ *   async (query: string, context?: RequestContext) => {
+ *     const response = await fetch(`/api/search?q=${query}`, { signal: context?.signal });
+ *     return response.json();
+ *   },
+ *   { concurrency: 'takeLatest', withSignal: true }
+ * );
  *
- * // Later...
- * const handleClick = () => {
- *   fetchUser('123');
- * };
+ * <input onChange={(event) => search(event.target.value)} />;
  * ```
  */
+// eslint-disable-next-line max-lines-per-function -- Concurrency strategies share the call lifecycle.
 export function useAsyncFunction<TArguments extends unknown[], TResult>(
-  function_: (...args: TArguments) => Promise<TResult>
+  function_: (...args: TArguments) => Promise<TResult>,
+  options: UseAsyncFunctionOptions = {}
 ): [AsyncFunctionState<TResult>, (...args: TArguments) => Promise<TResult | undefined>] {
-  const [state, setState] = useState<AsyncFunctionState<TResult>>({
+  const [state, setState] = useState<SettledState<TResult>>({
+    status: 'idle',
     loading: false,
     error: undefined,
     value: undefined,
   });
+  const [pendingCount, setPendingCount] = useState(0);
+
+  const latestOptions = useLatest(options);
+  const slots = useRef<CallSlots>();
+  slots.current ??= createCallSlots();
+  const controllers = useRef(new Set<AbortController>());
+  const pending = useRef(0);
+  const latestCallId = useRef(0);
+
+  const updatePending = useCallback((change: number): void => {
+    pending.current += change;
+    setPendingCount(pending.current);
+  }, []);
 
   const callback = useCallback(
+    // eslint-disable-next-line max-statements, max-lines-per-function, complexity -- Each strategy adds a step to the call lifecycle.
     async (...args: TArguments): Promise<TResult | undefined> => {
-      setState((previousState) => ({ ...previousState, loading: true, error: undefined }));
+      const {
+        timeout,
+        concurrency = 'parallel',
+        maxConcurrency = Infinity,
+        withSignal = false,
+      } = latestOptions.current;
+      if (concurrency === 'takeFirst' && pending.current > 0) {
+        return undefined;
+      }
+      if (concurrency === 'takeLatest') {
+        for (const controller of controllers.current) {
+          controller.abort();
+        }
+      }
 
+      const callId = ++latestCallId.current;
+      const isSuperseded = (): boolean =>
+        concurrency === 'takeLatest' && callId !== latestCallId.current;
+      const callSlots = slots.current!;
+      const controller = new AbortController();
+      controllers.current.add(controller);
+      updatePending(1);
+
+      await callSlots.acquire(getConcurrencyLimit(concurrency, maxConcurrency));
       try {
-        const value = await function_(...args);
-        setState({ loading: false, error: undefined, value });
-        return value;
+        // Waiting calls are dropped when the component unmounts
+        if (controller.signal.aborted) {
+          return undefined;
+        }
+        const value = await runWithTimeout(
+          (signal) => {
+            const context: RequestContext = { signal };
+            return function_(...((withSignal ? [...args, context] : args) as TArguments));
+          },
+          timeout,
+          controller.signal
+        );
+        if (!isSuperseded()) {
+          setState({ status: 'success', loading: false, error: undefined, value });
+        }
+        return isSuperseded() ? undefined : value;
       } catch (error) {
+        // Superseded, or cancelled by the unmount
+        if (isSuperseded() || controller.signal.aborted) {
+          return undefined;
+        }
         const errorObject = error instanceof Error ? error : new Error(String(error));
-        setState((previousState) => ({ ...previousState, loading: false, error: errorObject }));
+        setState((previousState) => ({
+          status: 'error',
+          loading: false,
+          error: errorObject,
+          value: previousState.value,
+        }));
         logHookError('useAsyncFunction', 'Async function failed', errorObject, { args });
         return undefined;
+      } finally {
+        controllers.current.delete(controller);
+        callSlots.release();
+        updatePending(-1);
       }
     },
-    [function_]
+    [function_, latestOptions, updatePending]
   );
 
-  return [state, callback];
+  useEffect(() => {
+    const running = controllers.current;
+    return () => {
+      for (const controller of running) {
+        controller.abort();
+      }
+    };
+  }, []);
+
+  return [
+    pendingCount > 0
+      ? { ...state, status: 'pending', loading: true, pendingCount }
+      : { ...state, pendingCount },
+    callback,
+  ];
 }
@@ -1,24 +1,61 @@
 import { useCallback, useRef, useState } from 'react';
 
 import { logHookError } from '../../utils/errorLogging.js';
+import { useLatest } from '../state/useLatest.js';
+import { getRetryDelay } from './retry/policy.js';
+import type { RetryPolicy } from './retry/types.js';
+import type { AsyncStatusState } from './status.js';
+import { runWithTimeout } from './timeout/deadline.js';
+import type { RequestContext } from './useRequest.js';
 
 /**
  * Async retry state
  */
-export type AsyncRetryState<T> = {
-  loading: boolean;
-  error: Error | undefined;
-  value: T | undefined;
+export type AsyncRetryState<T> = AsyncStatusState<T, undefined> & {
+  /** Retries of the current or last call */
   retryCount: number;
 };
 
+/**
+ * Options for useAsyncRetry hook
+ */
+export type UseAsyncRetryOptions = RetryPolicy & {
+  /**
+   * Maximum number of retries (alias of `count`)
+   * @default 3
+   */
+  retries?: number;
+  /**
+   * Delay between retries (alias of `delay`)
+   * @default 1000
+   */
+  retryDelay?: RetryPolicy['delay'];
+  /** Time limit of each attempt in milliseconds; a timed out attempt fails with a TimeoutError */
+  timeout?: number;
+  /**
+   * Pass a `RequestContext` with an AbortSignal to the function, appended after the args.
+   * The signal aborts when the attempt times out.
+   */
+  withSignal?: boolean;
+};
+
+function getPendingState<T>(previousState: AsyncRetryState<T>): AsyncRetryState<T> {
+  return {
+    status: 'pending',
+    loading: true,
+    error: undefined,
+    value: previousState.value,
+    retryCount: 0,
+  };
+}
+
 /**
  * Hook that provides async function execution with retry capability
  *
  * @template TArgs - The argument types for the async function
  * @template TResult - The return type of the async function
  * @param fn - Async function to execute
- * @param options - Retry options
+ * @param options - Retry policy (client errors are not retried unless `shouldRetry` says otherwise)
  * @returns Tuple of [state, callback, retry]
  *
  * @example
@@ -46,18 +83,21 @@ export type AsyncRetryState<T> = {
 // eslint-disable-next-line max-lines-per-function -- Retry logic requires branching and timing.
 export function useAsyncRetry<TArguments extends unknown[], TResult>(
   function_: (...args: TArguments) => Promise<TResult>,
-  options: {
-    retries?: number;
-    retryDelay?: number | ((attempt: number) => number);
-  } = {}
+  options: UseAsyncRetryOptions = {}
 ): [
   AsyncRetryState<TResult>,
   (...args: TArguments) => Promise<TResult | undefined>,
   () => Promise<TResult | undefined>,
 ] {
-  const { retries = 3, retryDelay = 1000 } = options;
+  const { retries, retryDelay, timeout, withSignal = false, ...policy } = options;
+  const latestPolicy = useLatest<RetryPolicy>({
+    ...policy,
+    count: retries ?? policy.count ?? 3,
+    delay: retryDelay ?? policy.delay ?? 1000,
+  });
 
   const [state, setState] = useState<AsyncRetryState<TResult>>({
+    status: 'idle',
     loading: false,
     error: undefined,
     value: undefined,
@@ -67,10 +107,18 @@ export function useAsyncRetry<TArguments extends unknown[], TResult>(
   const lastArgumentsReference = useRef<TArguments | undefined>();
 
   const executeWithRetry = useCallback(
-    async (args: TArguments, currentRetryCount = 0): Promise<TResult | undefined> => {
+    async (
+      args: TArguments,
+      currentRetryCount = 0,
+      startedAt = Date.now()
+    ): Promise<TResult | undefined> => {
       try {
-        const value = await function_(...args);
+        const value = await runWithTimeout((signal) => {
+          const context: RequestContext = { signal };
+          return function_(...((withSignal ? [...args, context] : args) as TArguments));
+        }, timeout);
         setState({
+          status: 'success',
           loading: false,
           error: undefined,
           value,
@@ -80,10 +128,13 @@ export function useAsyncRetry<TArguments extends unknown[], TResult>(
       } catch (error) {
         const errorObject = error instanceof Error ? error : new Error(String(error));
 
-        if (currentRetryCount < retries) {
-          const delay =
-            typeof retryDelay === 'function' ? retryDelay(currentRetryCount + 1) : retryDelay;
-
+        const delay = getRetryDelay(
+          latestPolicy.current,
+          currentRetryCount + 1,
+          errorObject,
+          Date.now() - startedAt
+        );
+        if (delay !== undefined) {
           setState((previousState) => ({
             ...previousState,
             retryCount: currentRetryCount + 1,
@@ -92,10 +143,11 @@ export function useAsyncRetry<TArguments extends unknown[], TResult>(
           await new Promise<void>((resolve) => {
             setTimeout(resolve, delay);
           });
-          return executeWithRetry(args, currentRetryCount + 1);
+          return executeWithRetry(args, currentRetryCount + 1, startedAt);
         }
 
         setState({
+          status: 'error',
           loading: false,
           error: errorObject,
           value: undefined,
@@ -108,18 +160,13 @@ export function useAsyncRetry<TArguments extends unknown[], TResult>(
         return undefined;
       }
     },
-    [function_, retries, retryDelay]
+    [function_, latestPolicy, timeout, withSignal]
   );
 
   const callback = useCallback(
     async (...args: TArguments): Promise<TResult | undefined> => {
       lastArgumentsReference.current = args;
-      setState((previousState) => ({
-        ...previousState,
-        loading: true,
-        error: undefined,
-        retryCount: 0,
-      }));
+      setState(getPendingState);
 
       return executeWithRetry(args);
     },
@@ -130,12 +177,7 @@ export function useAsyncRetry<TArguments extends unknown[], TResult>(
     if (!lastArgumentsReference.current) {
       throw new Error('No previous arguments to retry with');
     }
-    setState((previousState) => ({
-      ...previousState,
-      loading: true,
-      error: undefined,
-      retryCount: 0,
-    }));
+    setState(getPendingState);
 
     return executeWithRetry(lastArgumentsReference.current);
   }, [executeWithRetry]);
@@ -0,0 +1,206 @@
+import { useCallback, useRef } from 'react';
+
+import { useLatest } from '../state/useLatest.js';
+import {
+  type RequestContext,
+  useRequest,
+  type UseRequestOptions,
+  type UseRequestResult,
+} from './useRequest.js';
+
+/**
+ * Loaded pages and the params used to fetch them
+ */
+export type InfiniteData<TPage, TPageParam> = {
+  pages: TPage[];
+  pageParams: TPageParam[];
+};
+
+/**
+ * Options for useInfiniteRequest hook
+ */
+export type UseInfiniteRequestOptions<TPage, TPageParam> = Omit<
+  UseRequestOptions<InfiniteData<TPage, TPageParam>, [context?: RequestContext]>,
+  'defaultParams'
+> & {
+  /** Param used to fetch the first page */
+  initialPageParam: TPageParam;
+  /** Derive the next page param from the last page (return undefined or null when there are no more pages) */
+  getNextPageParam: (lastPage: TPage, pages: TPage[]) => TPageParam | null | undefined;
+};
+
+/**
+ * Infinite request result interface
+ */
+export type UseInfiniteRequestResult<TPage, TPageParam> = Omit<
+  UseRequestResult<InfiniteData<TPage, TPageParam>, [context?: RequestContext]>,
+  'params' | 'run' | 'runAsync'
+> & {
+  /** Loaded pages in order */
+  pages: TPage[];
+  /** Whether getNextPageParam reports another page */
+  hasMore: boolean;
+  /** Whether the next page is being fetched */
+  loadingMore: boolean;
+  /** Fetch the next page and append it, unless the loaded pages are refetched meanwhile */
+  loadMore: () => void;
+  /** Drop the loaded pages and fetch the first page again */
+  reload: () => void;
+};
+
+const NO_PARAMS: [context?: RequestContext] = [];
+
+function getNextParam<TPage, TPageParam>(
+  data: InfiniteData<TPage, TPageParam> | undefined,
+  getNextPageParam: UseInfiniteRequestOptions<TPage, TPageParam>['getNextPageParam']
+): TPageParam | null | undefined {
+  if (!data || data.pages.length === 0) {
+    return undefined;
+  }
+  return getNextPageParam(data.pages[data.pages.length - 1] as TPage, data.pages);
+}
+
+/**
+ * Hook for cursor- or offset-paginated lists that grow as more pages are loaded
+ *
+ * The loaded pages are stored as one useRequest entry, so caching, polling, retries,
+ * refreshDeps and focus/reconnect refreshes all apply. A refresh refetches every loaded
+ * page in order; `reload` starts over from the first page.
+ *
+ * @template TPage - The type of a single page
+ * @template TPageParam - The type of the page param (cursor, offset, page number)
+ * @param service - Fetches one page for a page param
+ * @param options - Infinite request options
+ * @returns Infinite request result object
+ *
+ * @example
+ * ```tsx
+ * const { pages, hasMore, loadMore, loadingMore } = useInfiniteRequest(
+ *   (cursor: string | undefined) => api.listPosts({ cursor }),
+ *   {
+ *     initialPageParam: undefined,
+ *     getNextPageParam: (lastPage) => lastPage.nextCursor,
+ *     cacheKey: 'posts',
+ *   }
+ * );
+ * ```
+ */
+// eslint-disable-next-line max-lines-per-function -- Coordinates the page list request with the next-page request.
+export function useInfiniteRequest<TPage, TPageParam>(
+  service: (pageParam: TPageParam, context?: RequestContext) => Promise<TPage>,
+  options: UseInfiniteRequestOptions<TPage, TPageParam>
+): UseInfiniteRequestResult<TPage, TPageParam> {
+  const { initialPageParam, getNextPageParam, onFinally, ...requestOptions } = options;
+
+  const latestService = useLatest(service);
+  const latestGetNextPageParam = useLatest(getNextPageParam);
+  const latestInitialPageParam = useLatest(initialPageParam);
+  const loadedData = useRef<InfiniteData<TPage, TPageParam>>();
+  const isReloading = useRef(false);
+  // The page list generation is bumped when a fetch starts and settles; a next page fetched
+  // across a change is dropped
+  const generations = useRef({ pages: 0, nextPage: 0 });
+
+  const fetchPage = useCallback(
+    (pageParam: TPageParam, context?: RequestContext): Promise<TPage> =>
+      context ? latestService.current(pageParam, context) : latestService.current(pageParam),
+    [latestService]
+  );
+
+  const fetchPages = useCallback(
+    async (context?: RequestContext): Promise<InfiniteData<TPage, TPageParam>> => {
+      const pageCount = isReloading.current ? 1 : (loadedData.current?.pages.length ?? 0) || 1;
+      const data: InfiniteData<TPage, TPageParam> = { pages: [], pageParams: [] };
+      let pageParam: TPageParam | null | undefined = latestInitialPageParam.current;
+      generations.current.pages += 1;
+
+      try {
+        // Pages are fetched in order because each param is derived from the previous page
+        while (data.pages.length < pageCount) {
+          const page = await fetchPage(pageParam as TPageParam, context);
+          data.pages.push(page);
+          data.pageParams.push(pageParam as TPageParam);
+
+          pageParam = latestGetNextPageParam.current(page, data.pages);
+          if (pageParam === undefined || pageParam === null) {
+            break;
+          }
+        }
+
+        return data;
+      } finally {
+        generations.current.pages += 1;
+      }
+    },
+    [fetchPage, latestGetNextPageParam, latestInitialPageParam]
+  );
+
+  const request = useRequest(fetchPages, {
+    ...requestOptions,
+    defaultParams: NO_PARAMS,
+    onFinally: (parameters, data, error) => {
+      isReloading.current = false;
+      onFinally?.(parameters, data, error);
+    },
+  });
+  loadedData.current = request.data;
+
+  const { mutate, refresh, cancel: cancelRequest } = request;
+  const nextPageRequest = useRequest(fetchPage, {
+    manual: true,
+    ...(requestOptions.retry && { retry: requestOptions.retry }),
+    ...(requestOptions.withSignal && { withSignal: true }),
+    ...(requestOptions.timeout !== undefined && { timeout: requestOptions.timeout }),
+    onSuccess: (page, [pageParam]) => {
+      // The page list was refetched meanwhile, so the page may not follow the current last page
+      if (generations.current.nextPage !== generations.current.pages) {
+        return;
+      }
+      mutate((current) => ({
+        pages: [...(current?.pages ?? []), page],
+        pageParams: [...(current?.pageParams ?? []), pageParam],
+      }));
+    },
+  });
+
+  const nextPageParam = getNextParam(request.data, getNextPageParam);
+  const hasMore = nextPageParam !== undefined && nextPageParam !== null;
+
+  const { run: runNextPage, loading: loadingMore, cancel: cancelNextPage } = nextPageRequest;
+  const loadMore = useCallback((): void => {
+    const pageParam = getNextParam(loadedData.current, latestGetNextPageParam.current);
+    if (pageParam !== undefined && pageParam !== null && !loadingMore) {
+      generations.current.nextPage = generations.current.pages;
+      runNextPage(pageParam);
+    }
+  }, [latestGetNextPageParam, loadingMore, runNextPage]);
+
+  const reload = useCallback((): void => {
+    cancelNextPage();
+    isReloading.current = true;
+    refresh();
+  }, [cancelNextPage, refresh]);
+
+  const cancel = useCallback((): void => {
+    cancelRequest();
+    cancelNextPage();
+  }, [cancelNextPage, cancelRequest]);
+
+  return {
+    data: request.data,
+    pages: request.data?.pages ?? [],
+    loading: request.loading,
+    isValidating: request.isValidating,
+    isStale: request.isStale,
+    error: request.error ?? nextPageRequest.error,
+    cancelled: request.cancelled,
+    hasMore,
+    loadingMore,
+    loadMore,
+    reload,
+    refresh,
+    refreshAsync: request.refreshAsync,
+    cancel,
+    mutate,
+  };
+}
@@ -0,0 +1,53 @@
+import { type RefObject, useEffect } from 'react';
+
+import {
+  useIntersectionObserver,
+  type UseIntersectionObserverOptions,
+} from '../browser/useIntersectionObserver.js';
+import type { UseInfiniteRequestResult } from './useInfiniteRequest.js';
+
+/**
+ * Hook that loads the next page of a useInfiniteRequest when a sentinel element becomes visible
+ *
+ * Requires IntersectionObserver support in the browser.
+ *
+ * @template T - The type of the sentinel element
+ * @param request - Result of useInfiniteRequest
+ * @param options - IntersectionObserver options for the sentinel
+ * @returns Ref to attach to the sentinel element
+ *
+ * @example
+ * ```tsx
+ * const posts = useInfiniteRequest(fetchPosts, {
+ *   initialPageParam: 0,
+ *   getNextPageParam: (lastPage) => lastPage.nextOffset,
+ * });
+ * const sentinelRef = useInfiniteScroll<HTMLDivElement>(posts, { rootMargin: '200px' });
+ *
+ * return (
+ *   <>
+ *     {posts.pages.flatMap((page) => page.items).map((post) => <Post key={post.id} {...post} />)}
+ *     <div ref={sentinelRef} />
+ *   </>
+ * );
+ * ```
+ */
+export function useInfiniteScroll<T extends HTMLElement = HTMLElement>(
+  request: Pick<
+    UseInfiniteRequestResult<unknown, unknown>,
+    'hasMore' | 'loading' | 'loadingMore' | 'loadMore'
+  >,
+  options: UseIntersectionObserverOptions = {}
+): RefObject<T> {
+  const [reference, isIntersecting] = useIntersectionObserver<T>(options);
+  const { hasMore, loading, loadingMore, loadMore } = request;
+
+  useEffect(() => {
+    // Keeps loading while the sentinel stays visible after a short page
+    if (isIntersecting && hasMore && !loading && !loadingMore) {
+      loadMore();
+    }
+  }, [hasMore, isIntersecting, loadMore, loading, loadingMore]);
+
+  return reference;
+}
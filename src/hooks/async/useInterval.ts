@@ -1,36 +1,49 @@
-import { useEffect, useRef } from 'react';
+import type { TimerControls, UseTimerOptions } from './timer/types.js';
+import { useTimer } from './timer/useTimer.js';
+
+/**
+ * Options for useInterval hook
+ */
+export type UseIntervalOptions = UseTimerOptions & {
+  /**
+   * Also call the callback when the interval starts
+   * @default false
+   */
+  immediate?: boolean;
+};
 
 /**
  * Hook that runs a callback at a specified interval
  *
+ * Ticks are scheduled from `performance.now()` so they do not drift, and ticks missed while
+ * the timers were throttled are skipped instead of fired in a burst.
+ *
  * @param callback - Function to call on each interval
- * @param delay - Delay in milliseconds (null to pause)
+ * @param delay - Delay in milliseconds (null to stop)
+ * @param options - Interval options
+ * @returns Controls to pause, resume and reset the interval
  *
  * @example
  * ```tsx
- * const Timer = () => {
- *   const [count, setCount] = useState(0);
- *   useInterval(() => setCount(c => c + 1), 1000);
- *   return <div>{count}</div>;
+ * const Countdown = ({ seconds }: { seconds: number }) => {
+ *   const [left, setLeft] = useState(seconds);
+ *   const { paused, pause, resume } = useInterval(
+ *     () => setLeft((value) => Math.max(0, value - 1)),
+ *     left > 0 ? 1000 : null
+ *   );
+ *
+ *   return (
+ *     <button onClick={paused ? resume : pause}>
+ *       {left}s {paused ? '(paused)' : ''}
+ *     </button>
+ *   );
  * };
  * ```
  */
-export function useInterval(callback: () => void, delay: number | null): void {
-  const savedCallback = useRef(callback);
-
-  useEffect(() => {
-    savedCallback.current = callback;
-  }, [callback]);
-
-  useEffect(() => {
-    if (delay === null) {
-      return;
-    }
-
-    const id = setInterval(() => {
-      savedCallback.current();
-    }, delay);
-
-    return () => clearInterval(id);
-  }, [delay]);
+export function useInterval(
+  callback: () => void,
+  delay: number | null,
+  options: UseIntervalOptions = {}
+): TimerControls {
+  return useTimer(callback, delay, { ...options, repeat: true });
 }
@@ -0,0 +1,323 @@
+import { useCallback, useEffect, useState } from 'react';
+
+import { logHookError } from '../../utils/errorLogging.js';
+import { useLatest } from '../state/useLatest.js';
+import { getDefaultMutationQueue, isNavigatorOnline } from './offline/queue.js';
+import { useReplayWhenOnline } from './offline/replay.js';
+import type { MutationQueue } from './offline/types.js';
+import { writeRequestCacheData } from './request/cache.js';
+import { normalizeError } from './request/execute.js';
+import { invalidateCache } from './request/invalidateCache.js';
+import { findRequestCacheKeys } from './request/keys.js';
+import { useRequestCache } from './request/RequestCacheProvider.js';
+import type { RequestCache, RequestCacheEntry } from './request/types.js';
+import { isRetryableError } from './retry/policy.js';
+
+/**
+ * Optimistic change applied to cached useRequest data before a mutation commits
+ */
+export type OptimisticUpdate<TCached = unknown> = {
+  /** The `cacheKey` used by the useRequest consumers to update */
+  cacheKey: string;
+  /** Only update the entry for these params (all entries of the cacheKey are updated when omitted) */
+  params?: readonly unknown[];
+  /** Optimistic data, or a function receiving the current cached data */
+  data: TCached | ((oldData: TCached | undefined) => TCached);
+};
+
+/**
+ * Offline queueing of a mutation
+ */
+export type OfflineMutationOptions = {
+  /** Key the queued mutation is persisted under and replayed by (unique per mutation function) */
+  mutationKey: string;
+  /** Queue to hold the mutation (defaults to a localStorage queue shared by all hooks) */
+  queue?: MutationQueue;
+};
+
+/**
+ * Options for useMutation hook
+ */
+export type UseMutationOptions<TData, TVariables extends unknown[], TCached = unknown> = {
+  /** Cache updates applied immediately and rolled back if the mutation fails */
+  optimisticUpdate?: (
+    ...variables: TVariables
+  ) => OptimisticUpdate<TCached> | OptimisticUpdate<TCached>[];
+  /**
+   * Queue the mutation while offline, or when it fails with a retryable error, and
+   * replay it once connectivity returns. The optimistic updates stay applied meanwhile.
+   */
+  offline?: OfflineMutationOptions;
+  /** Cache keys invalidated after the mutation succeeds */
+  invalidateKeys?: string[] | ((data: TData, variables: TVariables) => string[]);
+  /** onSuccess callback */
+  onSuccess?: (data: TData, variables: TVariables) => void;
+  /** onError callback, called after the optimistic updates are rolled back */
+  onError?: (error: Error, variables: TVariables) => void;
+  /** onSettled callback */
+  onSettled?: (data: TData | undefined, error: Error | undefined, variables: TVariables) => void;
+};
+
+/**
+ * Mutation result interface
+ */
+export type UseMutationResult<TData, TVariables extends unknown[]> = {
+  /** Data returned by the last successful mutation */
+  data: TData | undefined;
+  /** Error thrown by the last failed mutation */
+  error: Error | undefined;
+  /** Whether a mutation is in flight */
+  loading: boolean;
+  /** Whether the last mutation waits in the offline queue */
+  queued: boolean;
+  /** Run the mutation (errors are captured in state) */
+  mutate: (...variables: TVariables) => void;
+  /** Run the mutation and return its result (errors are rethrown) */
+  mutateAsync: (...variables: TVariables) => Promise<TData>;
+  /** Reset data and error */
+  reset: () => void;
+};
+
+type OptimisticWrite = {
+  key: string;
+  /** Entry before the optimistic update */
+  previous: RequestCacheEntry | undefined;
+  /** Entry holding the optimistic data */
+  written: RequestCacheEntry | undefined;
+};
+
+/**
+ * Apply optimistic updates, recording each write in `writes` as soon as it is made so a
+ * failure partway through can still roll back the writes before it
+ */
+function applyOptimisticUpdates<TCached>(
+  cache: RequestCache,
+  updates: OptimisticUpdate<TCached> | OptimisticUpdate<TCached>[] | undefined,
+  writes: OptimisticWrite[]
+): void {
+  for (const update of updates === undefined ? [] : [updates].flat()) {
+    for (const key of findRequestCacheKeys(cache, update.cacheKey, update.params)) {
+      const entry = cache.get(key);
+      const oldData = entry?.data as TCached | undefined;
+      const data =
+        typeof update.data === 'function'
+          ? (update.data as (oldData: TCached | undefined) => TCached)(oldData)
+          : update.data;
+      writeRequestCacheData(cache, key, data);
+      writes.push({ key, previous: entry, written: cache.get(key) });
+    }
+  }
+}
+
+function invalidateMutatedKeys<TData, TVariables extends unknown[]>(
+  cache: RequestCache,
+  invalidateKeys: UseMutationOptions<TData, TVariables>['invalidateKeys'],
+  data: TData,
+  variables: TVariables
+): void {
+  const keys =
+    typeof invalidateKeys === 'function' ? invalidateKeys(data, variables) : invalidateKeys;
+  for (const key of keys ?? []) {
+    invalidateCache(key, { cache });
+  }
+}
+
+function reportMutationError<TData, TVariables extends unknown[]>(
+  options: Pick<UseMutationOptions<TData, TVariables>, 'onError' | 'onSettled'>,
+  error: Error,
+  variables: TVariables
+): void {
+  logHookError('useMutation', 'Mutation failed', error, { variables });
+  options.onError?.(error, variables);
+  options.onSettled?.(undefined, error, variables);
+}
+
+/**
+ * Whether the entry is still the one an optimistic update wrote (storage caches return
+ * copies, so entries are compared by their timestamp, unique to each write)
+ */
+function isWrittenEntry(
+  entry: RequestCacheEntry | undefined,
+  written: RequestCacheEntry | undefined
+): boolean {
+  if (entry === written || !entry || !written) {
+    return entry === written;
+  }
+  return !entry.invalidated && entry.timestamp === written.timestamp;
+}
+
+function rollbackOptimisticUpdates(cache: RequestCache, writes: OptimisticWrite[]): void {
+  // Restore in reverse so overlapping updates end at their original entry
+  for (const { key, previous, written } of [...writes].reverse()) {
+    const entry = cache.get(key);
+    if (!isWrittenEntry(entry, written)) {
+      // Written since (a refetch, another mutation, another tab): refetch rather than restore
+      if (entry && !entry.invalidated) {
+        cache.set(key, { ...entry, invalidated: true });
+      }
+    } else if (previous) {
+      cache.set(key, previous);
+    } else {
+      cache.delete(key);
+    }
+  }
+}
+
+type ResolvedOfflineOptions = Required<OfflineMutationOptions>;
+
+function resolveOfflineOptions(
+  offline: OfflineMutationOptions | undefined
+): ResolvedOfflineOptions | undefined {
+  return offline && { ...offline, queue: offline.queue ?? getDefaultMutationQueue() };
+}
+
+async function runMutation<TData, TVariables extends unknown[]>(
+  mutationFn: (...variables: TVariables) => Promise<TData>,
+  variables: TVariables,
+  offline: ResolvedOfflineOptions | undefined,
+  onQueued: () => void
+): Promise<TData> {
+  const enqueue = (
+    { queue, mutationKey }: ResolvedOfflineOptions,
+    error?: Error
+  ): Promise<TData> => {
+    onQueued();
+    // Settles once the queue replays the mutation
+    return queue.enqueue(mutationKey, variables, error) as Promise<TData>;
+  };
+  if (offline && !isNavigatorOnline()) {
+    return enqueue(offline);
+  }
+
+  try {
+    return await mutationFn(...variables);
+  } catch (error) {
+    const errorObject = normalizeError(error);
+    if (offline && isRetryableError(errorObject)) {
+      return enqueue(offline, errorObject);
+    }
+    throw error;
+  }
+}
+
+function useOfflineMutation<TData, TVariables extends unknown[]>(
+  offline: OfflineMutationOptions | undefined,
+  latestMutationFn: { readonly current: (...variables: TVariables) => Promise<TData> }
+): void {
+  const { queue, mutationKey } = resolveOfflineOptions(offline) ?? {};
+
+  useEffect(() => {
+    if (!queue || mutationKey === undefined) {
+      return;
+    }
+    return queue.register(mutationKey, (...variables) =>
+      latestMutationFn.current(...(variables as TVariables))
+    );
+  }, [latestMutationFn, mutationKey, queue]);
+
+  useReplayWhenOnline(queue);
+}
+
+/**
+ * Hook for write requests with optimistic cache updates and automatic rollback
+ *
+ * Optimistic updates are written to the same cache useRequest reads from, so every
+ * consumer of the affected keys re-renders immediately, and responses of requests started
+ * before the update do not overwrite it. If the mutation fails the previous entries are
+ * restored, unless the keys were written since, in which case they are refetched; on
+ * success the `invalidateKeys` are refetched.
+ *
+ * With `offline`, a mutation made while offline (or failing with a retryable error) is
+ * persisted in a mutation queue instead of failing. `mutateAsync` then settles when the
+ * queue replays it after connectivity returns; see useMutationQueue.
+ *
+ * @template TData - The return type of the mutation
+ * @template TVariables - The argument types of the mutation
+ * @template TCached - The type of the cached data being updated optimistically
+ * @param mutationFn - Function performing the write
+ * @param options - Mutation options
+ * @returns Mutation result object
+ *
+ * @example
+ * ```tsx
+ * const { mutate, loading } = useMutation(
+ *   (todo: Todo) => api.updateTodo(todo),
+ *   {
+ *     optimisticUpdate: (todo) => ({
+ *       cacheKey: 'todos',
+ *       data: (todos: Todo[] = []) => todos.map((item) => (item.id === todo.id ? todo : item)),
+ *     }),
+ *     invalidateKeys: ['todos'],
+ *   }
+ * );
+ * ```
+ */
+// eslint-disable-next-line max-lines-per-function -- Mutation lifecycle spans optimistic, offline and settled state.
+export function useMutation<TData = unknown, TVariables extends unknown[] = [], TCached = unknown>(
+  mutationFn: (...variables: TVariables) => Promise<TData>,
+  options: UseMutationOptions<TData, TVariables, TCached> = {}
+): UseMutationResult<TData, TVariables> {
+  const cache = useRequestCache();
+  const [data, setData] = useState<TData | undefined>();
+  const [error, setError] = useState<Error | undefined>();
+  const [loading, setLoading] = useState<boolean>(false);
+  const [queued, setQueued] = useState<boolean>(false);
+
+  const latestMutationFn = useLatest(mutationFn);
+  const latestOptions = useLatest(options);
+
+  useOfflineMutation(options.offline, latestMutationFn);
+
+  const mutateAsync = useCallback(
+    async (...variables: TVariables): Promise<TData> => {
+      const { optimisticUpdate, invalidateKeys, onSuccess, onSettled } = latestOptions.current;
+      const optimisticWrites: OptimisticWrite[] = [];
+
+      setLoading(true);
+      setError(undefined);
+
+      try {
+        applyOptimisticUpdates(cache, optimisticUpdate?.(...variables), optimisticWrites);
+        const result = await runMutation(
+          latestMutationFn.current,
+          variables,
+          resolveOfflineOptions(latestOptions.current.offline),
+          () => {
+            setLoading(false);
+            setQueued(true);
+          }
+        );
+        setData(result);
+        invalidateMutatedKeys(cache, invalidateKeys, result, variables);
+        onSuccess?.(result, variables);
+        onSettled?.(result, undefined, variables);
+        return result;
+      } catch (error_) {
+        const errorObject = error_ instanceof Error ? error_ : new Error(String(error_));
+        rollbackOptimisticUpdates(cache, optimisticWrites);
+        setError(errorObject);
+        reportMutationError(latestOptions.current, errorObject, variables);
+        throw errorObject;
+      } finally {
+        setLoading(false);
+        setQueued(false);
+      }
+    },
+    [cache, latestMutationFn, latestOptions]
+  );
+
+  const mutate = useCallback(
+    (...variables: TVariables): void => {
+      // Errors are already reflected in state and logged
+      mutateAsync(...variables).catch(() => undefined);
+    },
+    [mutateAsync]
+  );
+
+  const reset = useCallback((): void => {
+    setData(undefined);
+    setError(undefined);
+  }, []);
+
+  return { data, error, loading, queued, mutate, mutateAsync, reset };
+}
@@ -0,0 +1,80 @@
+import { useCallback, useEffect, useState } from 'react';
+
+import { useLatest } from '../state/useLatest.js';
+import { getDefaultMutationQueue } from './offline/queue.js';
+import { useReplayWhenOnline } from './offline/replay.js';
+import type { MutationConflictListener, MutationQueue, QueuedMutation } from './offline/types.js';
+
+/**
+ * Options for useMutationQueue hook
+ */
+export type UseMutationQueueOptions = {
+  /** Queue to observe (defaults to the localStorage queue used by useMutation) */
+  queue?: MutationQueue;
+  /** Called when a replayed mutation fails with a non-retryable error and is dropped */
+  onConflict?: MutationConflictListener;
+};
+
+/**
+ * Mutation queue result interface
+ */
+export type UseMutationQueueResult = {
+  /** Mutations waiting for connectivity, in replay order */
+  pending: QueuedMutation[];
+  /** Number of pending mutations */
+  pendingCount: number;
+  /** Replay the pending mutations now */
+  replay: () => Promise<void>;
+  /** Drop a pending mutation (its mutateAsync call rejects) */
+  remove: (id: string) => void;
+  /** Drop every pending mutation */
+  clear: () => void;
+};
+
+/**
+ * Hook exposing the offline mutation queue to the UI
+ *
+ * Mutations queued by useMutation's `offline` option are replayed in order when the
+ * browser reports connectivity again (and on mount). Conflicts, replays rejected with a
+ * non-retryable error such as a 409, are dropped and reported through `onConflict`.
+ *
+ * @param options - Queue and conflict callback
+ * @returns Pending mutations and queue controls
+ *
+ * @example
+ * ```tsx
+ * const { pendingCount } = useMutationQueue({
+ *   onConflict: (mutation, error) => toast(`Could not sync ${mutation.mutationKey}: ${error.message}`),
+ * });
+ *
+ * return pendingCount > 0 ? <Badge>{pendingCount} changes waiting to sync</Badge> : null;
+ * ```
+ */
+export function useMutationQueue(options: UseMutationQueueOptions = {}): UseMutationQueueResult {
+  const { queue = getDefaultMutationQueue(), onConflict } = options;
+  const [pending, setPending] = useState<QueuedMutation[]>(() => queue.getPending());
+
+  useEffect(() => {
+    setPending(queue.getPending());
+    return queue.subscribe(() => {
+      setPending(queue.getPending());
+    });
+  }, [queue]);
+
+  const latestOnConflict = useLatest(onConflict);
+  useEffect(
+    () =>
+      queue.onConflict((mutation, error) => {
+        latestOnConflict.current?.(mutation, error);
+      }),
+    [latestOnConflict, queue]
+  );
+
+  useReplayWhenOnline(queue);
+
+  const replay = useCallback((): Promise<void> => queue.replay(), [queue]);
+  const remove = useCallback((id: string): void => queue.remove(id), [queue]);
+  const clear = useCallback((): void => queue.clear(), [queue]);
+
+  return { pending, pendingCount: pending.length, replay, remove, clear };
+}
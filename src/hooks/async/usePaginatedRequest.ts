@@ -0,0 +1,157 @@
+import { useCallback, useMemo } from 'react';
+
+import { invalidateCache } from './request/invalidateCache.js';
+import { useRequestCache } from './request/RequestCacheProvider.js';
+import { useRequest, type UseRequestOptions, type UseRequestResult } from './useRequest.js';
+
+/**
+ * Page position passed to a paginated service
+ */
+export type PaginationParams = {
+  /** Current page (1-based by default) */
+  page: number;
+  /** Number of items per page */
+  pageSize: number;
+};
+
+/**
+ * Options for usePaginatedRequest hook
+ */
+export type UsePaginatedRequestOptions<TData> = Omit<
+  UseRequestOptions<TData, [pagination: PaginationParams]>,
+  'defaultParams'
+> & {
+  /**
+   * First page number
+   * @default 1
+   */
+  defaultPage?: number;
+  /**
+   * Initial page size
+   * @default 10
+   */
+  defaultPageSize?: number;
+  /** Read the total item count from a response, used for `totalPages` and `hasMore` */
+  getTotal?: (data: TData) => number;
+};
+
+/**
+ * Paginated request result interface
+ */
+export type UsePaginatedRequestResult<TData> = UseRequestResult<
+  TData,
+  [pagination: PaginationParams]
+> & {
+  /** Current page */
+  page: number;
+  /** Current page size */
+  pageSize: number;
+  /** Total item count (undefined without getTotal or before the first response) */
+  total: number | undefined;
+  /** Total page count (undefined when the total is unknown) */
+  totalPages: number | undefined;
+  /** Whether a page after the current one exists (true when the total is unknown) */
+  hasMore: boolean;
+  /** Go to a page */
+  setPage: (page: number) => void;
+  /** Change the page size and go back to the first page */
+  setPageSize: (pageSize: number) => void;
+  /** Go to the next page if there is one */
+  next: () => void;
+  /** Go to the previous page if there is one */
+  previous: () => void;
+  /** Go back to the first page and fetch it again */
+  reload: () => void;
+};
+
+/**
+ * Hook for page-by-page navigation built on useRequest
+ *
+ * Every page is a separate request (and cache entry when `cacheKey` is set), so
+ * revisiting a page is served from the cache.
+ *
+ * @template TData - The response type of one page
+ * @param service - Fetches one page
+ * @param options - Paginated request options
+ * @returns Paginated request result object
+ *
+ * @example
+ * ```tsx
+ * const { data, page, totalPages, next, previous } = usePaginatedRequest(
+ *   ({ page, pageSize }) => api.listUsers({ page, pageSize }),
+ *   { cacheKey: 'users', getTotal: (response) => response.total }
+ * );
+ * ```
+ */
+// eslint-disable-next-line max-lines-per-function -- Navigation helpers share the pagination state derived from params.
+export function usePaginatedRequest<TData>(
+  service: (pagination: PaginationParams) => Promise<TData>,
+  options: UsePaginatedRequestOptions<TData> = {}
+): UsePaginatedRequestResult<TData> {
+  const { defaultPage = 1, defaultPageSize = 10, getTotal, ...requestOptions } = options;
+
+  const cache = useRequestCache();
+  const defaultParams = useMemo<[pagination: PaginationParams]>(
+    () => [{ page: defaultPage, pageSize: defaultPageSize }],
+    [defaultPage, defaultPageSize]
+  );
+  const request = useRequest(service, { ...requestOptions, defaultParams });
+
+  const { page, pageSize } = request.params?.[0] ?? defaultParams[0];
+  const total = request.data === undefined ? undefined : getTotal?.(request.data);
+  const totalPages = total === undefined ? undefined : Math.ceil(total / pageSize);
+  const hasMore = totalPages === undefined || page - defaultPage + 1 < totalPages;
+
+  const { run } = request;
+  const setPage = useCallback(
+    (nextPage: number): void => {
+      run({ page: nextPage, pageSize });
+    },
+    [pageSize, run]
+  );
+
+  const setPageSize = useCallback(
+    (nextPageSize: number): void => {
+      run({ page: defaultPage, pageSize: nextPageSize });
+    },
+    [defaultPage, run]
+  );
+
+  const next = useCallback((): void => {
+    if (hasMore) {
+      setPage(page + 1);
+    }
+  }, [hasMore, page, setPage]);
+
+  const previous = useCallback((): void => {
+    if (page > defaultPage) {
+      setPage(page - 1);
+    }
+  }, [defaultPage, page, setPage]);
+
+  const { cacheKey } = requestOptions;
+  const reload = useCallback((): void => {
+    const firstPage: PaginationParams = { page: defaultPage, pageSize };
+    // Skip the cached copy of the first page
+    if (typeof cacheKey === 'function') {
+      invalidateCache(cacheKey(firstPage), { cache });
+    } else if (cacheKey) {
+      invalidateCache(cacheKey, { params: [firstPage], cache });
+    }
+    run(firstPage);
+  }, [cache, cacheKey, defaultPage, pageSize, run]);
+
+  return {
+    ...request,
+    page,
+    pageSize,
+    total,
+    totalPages,
+    hasMore,
+    setPage,
+    setPageSize,
+    next,
+    previous,
+    reload,
+  };
+}
@@ -1,6 +1,28 @@
 import { type MutableRefObject, useCallback, useEffect, useRef, useState } from 'react';
 
 import { logHookError } from '../../utils/errorLogging.js';
+import { useVisibility } from '../browser/useVisibility.js';
+import { useUpdateEffect } from '../lifecycle/useUpdateEffect.js';
+import { useLatest } from '../state/useLatest.js';
+import { useRequestBroadcast } from './request/broadcast.js';
+import { writeRequestCacheData } from './request/cache.js';
+import { type ExecuteConfig, executeWithRetry } from './request/execute.js';
+import { retainRequestCacheKey } from './request/gc.js';
+import { getRequestCacheKey } from './request/keys.js';
+import { usePollingEffect } from './request/polling.js';
+import { useRequestCache } from './request/RequestCacheProvider.js';
+import type { RequestCache, RequestCacheEntry, RequestCacheKey } from './request/types.js';
+import type { RetryPolicy } from './retry/types.js';
+import { resolveRequestTimeout } from './timeout/deadline.js';
+import type { RequestTimeout } from './timeout/types.js';
+
+/**
+ * Context passed to the service as its last argument when `withSignal` is enabled
+ */
+export type RequestContext = {
+  /** Signal aborted when the request is cancelled */
+  signal: AbortSignal;
+};
 
 /**
  * Request options for useRequest hook
@@ -8,37 +30,76 @@ import { logHookError } from '../../utils/errorLogging.js';
 export type UseRequestOptions<TData, TParameters extends unknown[]> = {
   /** Whether to execute automatically on mount */
   manual?: boolean;
-  /** Default parameters for the request */
+  /**
+   * Parameters of the automatic request, read on mount and when `ready` turns true;
+   * changing them does not refetch (read changing values in the service and list them in
+   * `refreshDeps`, or call `run`)
+   */
   defaultParams?: TParameters;
   /** Refresh dependencies - triggers re-execution when changed */
   refreshDeps?: unknown[];
-  /** Cache key for request deduplication */
-  cacheKey?: string;
-  /** Cache time in milliseconds */
+  /**
+   * Cache key for request caching and deduplication. A string is combined with a stable
+   * hash of the params; a function builds the whole key from the params instead.
+   */
+  cacheKey?: RequestCacheKey<TParameters>;
+  /**
+   * How long a cached response may be served, in milliseconds. Entries no mounted hook
+   * uses are removed from the cache once they are this old.
+   */
   cacheTime?: number;
+  /**
+   * How long a cached response stays fresh, in milliseconds. When set, cached data older
+   * than `staleTime` (but within `cacheTime`) is returned immediately and revalidated in
+   * the background. When omitted, cached data is fresh for the whole `cacheTime`.
+   */
+  staleTime?: number;
+  /** Tags stored with the cached response, for invalidateTags (e.g. `['user', 'user:42']`) */
+  tags?: string[];
+  /**
+   * Share the cache entry with other tabs over BroadcastChannel: responses and mutations
+   * written in one tab update every other tab using the key. When polling, only one tab
+   * (elected with the Web Locks API) polls the key and the others receive its responses;
+   * hidden tabs leave the election (unless `pollingWhenHidden`) so a visible tab takes
+   * over. Without the Web Locks API every tab polls. Cached data must be
+   * structured-cloneable.
+   */
+  broadcast?: boolean;
   /** Whether to refresh on window focus */
   refreshOnWindowFocus?: boolean;
   /** Focus throttle time in milliseconds */
   focusThrottleWait?: number;
   /** Whether to refresh on network reconnect */
   refreshOnReconnect?: boolean;
-  /** Polling interval in milliseconds */
+  /** Polling interval in milliseconds, counted from the end of the previous request */
   pollingInterval?: number;
-  /** Whether to stop polling when error occurs */
+  /** Whether to keep polling while the page is hidden */
   pollingWhenHidden?: boolean;
+  /** Consecutive failed polls after which polling stops (failed polls back off exponentially) */
+  pollingErrorRetryCount?: number;
+  /** Stop polling while this returns true for the current data */
+  stopPollingWhen?: (data: TData) => boolean;
   /** Loading delay in milliseconds */
   loadingDelay?: number;
-  /** Retry configuration */
-  retry?: {
-    count?: number;
-    delay?: number | ((attempt: number) => number);
-  };
+  /** Retry policy (client errors are not retried unless `shouldRetry` says otherwise) */
+  retry?: RetryPolicy;
+  /**
+   * Time limit in milliseconds after which the request fails with a TimeoutError and its
+   * signal aborts. A number limits each attempt; `{ attempt, total }` also caps the whole
+   * request including retries.
+   */
+  timeout?: number | RequestTimeout;
   /** Request debounce delay in milliseconds */
   debounceWait?: number;
   /** Request throttle delay in milliseconds */
   throttleWait?: number;
   /** Ready state - only execute when true */
   ready?: boolean;
+  /**
+   * Pass a `RequestContext` with an AbortSignal to the service, appended after the params.
+   * Declare it as an optional last service parameter: `(id: string, context?: RequestContext)`.
+   */
+  withSignal?: boolean;
   /** onBefore callback */
   onBefore?: (parameters: TParameters) => void;
   /** onSuccess callback */
@@ -55,10 +116,16 @@ export type UseRequestOptions<TData, TParameters extends unknown[]> = {
 export type UseRequestResult<TData, TParameters extends unknown[]> = {
   /** Response data */
   data: TData | undefined;
-  /** Loading state */
+  /** Loading state (stays false while stale data is revalidated in the background) */
   loading: boolean;
+  /** Whether a request is in flight, including background revalidation */
+  isValidating: boolean;
+  /** Whether `data` was served from a stale cache entry and is being revalidated */
+  isStale: boolean;
   /** Error object */
   error: Error | undefined;
+  /** Whether the last request was cancelled */
+  cancelled: boolean;
   /** Request parameters */
   params: TParameters | undefined;
   /** Execute the request manually */
@@ -69,151 +136,46 @@ export type UseRequestResult<TData, TParameters extends unknown[]> = {
   refresh: () => void;
   /** Refresh asynchronously */
   refreshAsync: () => Promise<TData>;
-  /** Cancel the current request */
+  /** Cancel the current request and abort its signal */
   cancel: () => void;
-  /** Mute the current request (don't trigger state updates) */
+  /** Replace the data locally and in the shared cache entry for the current params */
   mutate: (data: TData | ((oldData: TData | undefined) => TData)) => void;
 };
 
-/**
- * Global request cache
- */
-const requestCache = new Map<
-  string,
-  {
-    data: unknown;
-    timestamp: number;
-    promise?: Promise<unknown>;
-  }
->();
-
-/**
- * Global request deduplication
- */
-const requestDedup = new Map<string, Promise<unknown>>();
-
-type RetryConfig = NonNullable<UseRequestOptions<unknown, unknown[]>['retry']>;
+const DEFAULT_RETRY: RetryPolicy = { count: 0 };
+const EMPTY_DEPS: unknown[] = [];
 
-function sleep(ms: number): Promise<void> {
-  return new Promise<void>((resolve) => {
-    setTimeout(resolve, ms);
-  });
-}
-
-function getCacheKeyValue(cacheKey: string | undefined, parameters: unknown[]): string | undefined {
+function getCacheKeyValue<TParameters extends unknown[]>(
+  cacheKey: RequestCacheKey<TParameters> | undefined,
+  parameters: TParameters
+): string | undefined {
   if (!cacheKey) {
     return undefined;
   }
-  return `${cacheKey}-${JSON.stringify(parameters)}`;
+  return getRequestCacheKey(cacheKey, parameters);
 }
 
-function getCachedData<TData>(
+function getCachedEntry(
+  cache: RequestCache,
   cacheKeyValue: string | undefined,
   cacheTime: number
-): TData | undefined {
+): RequestCacheEntry | undefined {
   if (!cacheKeyValue) {
     return undefined;
   }
 
-  const cached = requestCache.get(cacheKeyValue);
-  if (!cached) {
+  const cached = cache.get(cacheKeyValue);
+  if (!cached || Date.now() - cached.timestamp >= cacheTime) {
     return undefined;
   }
-
-  const isFresh = Date.now() - cached.timestamp < cacheTime;
-  return isFresh ? (cached.data as TData) : undefined;
-}
-
-function getDedupPromise<TData>(cacheKeyValue: string | undefined): Promise<TData> | undefined {
-  if (!cacheKeyValue) {
-    return undefined;
-  }
-  return requestDedup.get(cacheKeyValue) as Promise<TData> | undefined;
-}
-
-function getRetryDelay(retry: RetryConfig, attempt: number): number {
-  const delay = retry.delay;
-  if (typeof delay === 'function') {
-    return delay(attempt);
-  }
-  if (typeof delay === 'number') {
-    return delay;
-  }
-  return Math.min(1000 * 2 ** (attempt - 1), 30000);
-}
-
-function normalizeError(error: unknown): Error {
-  return error instanceof Error ? error : new Error(String(error));
+  return cached;
 }
 
-// eslint-disable-next-line max-lines-per-function -- Centralizes caching/dedup/retry behavior for `useRequest`.
-async function executeWithRetry<TData, TParameters extends unknown[]>(
-  service: (...args: TParameters) => Promise<TData>,
-  requestParameters: TParameters,
-  config: {
-    cacheKeyValue?: string;
-    cacheTime: number;
-    isRefresh: boolean;
-    retry: RetryConfig;
-    onBefore?: (parameters: TParameters) => void;
-    onSuccess?: (data: TData, parameters: TParameters) => void;
-    onError?: (error: Error, parameters: TParameters) => void;
+function isStaleEntry(entry: RequestCacheEntry, staleTime: number | undefined): boolean {
+  if (entry.invalidated) {
+    return true;
   }
-): Promise<TData> {
-  const cacheKeyValue = config.cacheKeyValue;
-  const shouldCache = cacheKeyValue !== undefined && !config.isRefresh;
-
-  if (!config.isRefresh) {
-    const cached = getCachedData<TData>(cacheKeyValue, config.cacheTime);
-    if (cached !== undefined) {
-      return cached;
-    }
-
-    const dedupPromise = getDedupPromise<TData>(cacheKeyValue);
-    if (dedupPromise) {
-      return dedupPromise;
-    }
-  }
-
-  const maxRetries = config.retry.count ?? 0;
-
-  const attemptRequest = async (attempt: number): Promise<TData> => {
-    config.onBefore?.(requestParameters);
-
-    const promise = service(...requestParameters);
-    if (shouldCache) {
-      requestDedup.set(cacheKeyValue, promise as Promise<unknown>);
-    }
-
-    try {
-      const result = await promise;
-
-      if (shouldCache) {
-        requestCache.set(cacheKeyValue, {
-          data: result,
-          timestamp: Date.now(),
-        });
-      }
-
-      config.onSuccess?.(result, requestParameters);
-      return result;
-    } catch (error) {
-      const errorObject = normalizeError(error);
-      if (attempt < maxRetries) {
-        await sleep(getRetryDelay(config.retry, attempt + 1));
-        return attemptRequest(attempt + 1);
-      }
-
-      config.onError?.(errorObject, requestParameters);
-      throw errorObject;
-    } finally {
-      if (shouldCache) {
-        requestDedup.delete(cacheKeyValue);
-      }
-    }
-  };
-
-  return attemptRequest(0);
+  return staleTime !== undefined && Date.now() - entry.timestamp >= staleTime;
 }
 
 function scheduleDebounced(
@@ -249,13 +211,14 @@ function scheduleThrottled(
 
 function useInitialExecution<TParameters extends unknown[]>(
   isManual: boolean,
-  defaultParameters: TParameters | undefined,
+  defaultParameters: { readonly current: TParameters | undefined },
   isReady: boolean,
   runRequest: (parameters: TParameters, isRefresh?: boolean) => void
 ): void {
   useEffect(() => {
-    if (!isManual && defaultParameters && isReady) {
-      runRequest(defaultParameters);
+    const parameters = defaultParameters.current;
+    if (!isManual && parameters && isReady) {
+      runRequest(parameters);
     }
   }, [defaultParameters, isManual, isReady, runRequest]);
 }
@@ -266,12 +229,12 @@ function useRefreshDepsEffect<TParameters extends unknown[]>(
   latestParameters: MutableRefObject<TParameters | undefined>,
   runRequest: (parameters: TParameters, isRefresh?: boolean) => void
 ): void {
-  useEffect(() => {
+  useUpdateEffect(() => {
     const parameters = latestParameters.current;
     if (refreshDeps.length > 0 && parameters && isReady) {
       runRequest(parameters, true);
     }
-  }, [isReady, latestParameters, refreshDeps, runRequest]);
+  }, refreshDeps);
 }
 
 function useWindowFocusRefreshEffect(
@@ -313,43 +276,34 @@ function useReconnectRefreshEffect(shouldRefreshOnReconnect: boolean, refresh: (
   }, [shouldRefreshOnReconnect, refresh]);
 }
 
-function usePollingEffect(
-  pollingInterval: number | undefined,
-  pollingWhenHidden: boolean,
-  refresh: () => void,
-  pollingTimer: MutableRefObject<ReturnType<typeof setInterval> | undefined>
+function useCacheSubscription(
+  cache: RequestCache,
+  cacheKeyValue: string | undefined,
+  cacheTime: number,
+  onEntry: (entry: RequestCacheEntry) => void
 ): void {
   useEffect(() => {
-    if (!pollingInterval) {
+    if (cacheKeyValue === undefined) {
       return;
     }
 
-    const poll = (): void => {
-      if (document.hidden && !pollingWhenHidden) {
-        return;
+    // Mounted consumers keep the entry alive; it is collected cacheTime after the last unmounts
+    const release = retainRequestCacheKey(cache, cacheKeyValue, cacheTime);
+    const unsubscribe = cache.subscribe(cacheKeyValue, (entry) => {
+      if (entry) {
+        onEntry(entry);
       }
-      refresh();
-    };
+    });
 
-    const intervalId = setInterval(poll, pollingInterval);
-    pollingTimer.current = intervalId;
-    return () => clearInterval(intervalId);
-  }, [pollingInterval, pollingWhenHidden, refresh, pollingTimer]);
-}
-
-function useRequestCleanup(
-  cancel: () => void,
-  pollingTimer: MutableRefObject<ReturnType<typeof setInterval> | undefined>
-): void {
-  useEffect(() => {
-    const intervalId = pollingTimer.current;
     return () => {
-      cancel();
-      if (intervalId) {
-        clearInterval(intervalId);
-      }
+      unsubscribe();
+      release();
     };
-  }, [cancel, pollingTimer]);
+  }, [cache, cacheKeyValue, cacheTime, onEntry]);
+}
+
+function useRequestCleanup(cancel: () => void): void {
+  useEffect(() => cancel, [cancel]);
 }
 
 /**
@@ -381,28 +335,46 @@ export function useRequest<TData = unknown, TParameters extends unknown[] = []>(
   const {
     manual = false,
     defaultParams,
-    refreshDeps = [],
+    refreshDeps = EMPTY_DEPS,
     cacheKey,
     cacheTime = 5 * 60 * 1000, // 5 minutes
+    staleTime,
     refreshOnWindowFocus = false,
     focusThrottleWait = 5000,
     refreshOnReconnect = false,
     pollingInterval,
     pollingWhenHidden = false,
+    pollingErrorRetryCount,
+    stopPollingWhen,
     loadingDelay = 0,
-    retry = { count: 0 },
+    retry = DEFAULT_RETRY,
+    timeout,
     debounceWait,
     throttleWait,
     ready = true,
+    withSignal = false,
+    tags,
+    broadcast = false,
     onBefore,
     onSuccess,
     onError,
     onFinally,
   } = requestOptions;
 
-  const [data, setData] = useState<TData | undefined>();
+  const cache = useRequestCache();
+  // Cached (e.g. prefetched and hydrated) data is available on the first render
+  const [data, setData] = useState<TData | undefined>(() => {
+    const cacheKeyValue = getCacheKeyValue(
+      cacheKey,
+      defaultParams ?? ([] as unknown as TParameters)
+    );
+    return getCachedEntry(cache, cacheKeyValue, cacheTime)?.data as TData | undefined;
+  });
   const [loading, setLoading] = useState<boolean>(false);
+  const [isValidating, setIsValidating] = useState<boolean>(false);
+  const [isStale, setIsStale] = useState<boolean>(false);
   const [error, setError] = useState<Error | undefined>();
+  const [cancelled, setCancelled] = useState<boolean>(false);
   const [parameters, setParameters] = useState<TParameters | undefined>(defaultParams);
 
   const latestParameters = useRef<TParameters | undefined>(defaultParams);
@@ -412,8 +384,22 @@ export function useRequest<TData = unknown, TParameters extends unknown[] = []>(
   const lastThrottleTime = useRef<number>(0);
   const loadingDelayTimer = useRef<NodeJS.Timeout>();
   const lastFocusTime = useRef<number>(0);
-  const pollingTimer = useRef<NodeJS.Timeout>();
+  const pollingErrorCount = useRef<number>(0);
   const abortController = useRef<AbortController>();
+  // Service, params and callbacks are often inline, so read them through refs to keep
+  // the request callbacks stable across renders
+  const defaultParameters = useLatest(defaultParams);
+  const latestService = useLatest(service);
+  const latestCacheKey = useLatest(cacheKey);
+  const latestOptions = useLatest({
+    retry,
+    tags,
+    timeout,
+    onBefore,
+    onSuccess,
+    onError,
+    onFinally,
+  });
 
   // Update refs
   latestParameters.current = parameters;
@@ -423,77 +409,119 @@ export function useRequest<TData = unknown, TParameters extends unknown[] = []>(
    * Execute the request with retry logic
    */
   const executeRequest = useCallback(
-    async (requestParameters: TParameters, isRefresh = false): Promise<TData> => {
-      const cacheKeyValue = getCacheKeyValue(cacheKey, requestParameters);
-
-      // Create abort controller (best-effort cancellation)
-      abortController.current = new AbortController();
-
-      const _options: {
-        cacheKeyValue?: string;
-        cacheTime: number;
-        isRefresh: boolean;
-        retry: RetryConfig;
-        onBefore?: (parameters: TParameters) => void;
-        onSuccess?: (data: TData, parameters: TParameters) => void;
-        onError?: (error: Error, parameters: TParameters) => void;
-      } = {
+    async (
+      requestParameters: TParameters,
+      isRefresh = false,
+      controller = new AbortController()
+    ): Promise<TData> => {
+      const cacheKeyValue = getCacheKeyValue(latestCacheKey.current, requestParameters);
+      abortController.current = controller;
+
+      const latest = latestOptions.current;
+      const config: ExecuteConfig<TData, TParameters> = {
+        cache,
         cacheTime,
+        freshTime: staleTime === undefined ? cacheTime : Math.min(staleTime, cacheTime),
         isRefresh,
-        retry: retry as RetryConfig,
+        retry: latest.retry,
+        signal: controller.signal,
+        withSignal,
       };
 
       if (cacheKeyValue !== undefined) {
-        _options.cacheKeyValue = cacheKeyValue;
+        config.cacheKeyValue = cacheKeyValue;
       }
-      if (onBefore) {
-        _options.onBefore = onBefore;
+      if (latest.tags) {
+        config.tags = latest.tags;
       }
-      if (onSuccess) {
-        _options.onSuccess = onSuccess;
+      if (latest.timeout !== undefined) {
+        config.timeout = resolveRequestTimeout(latest.timeout);
       }
-      if (onError) {
-        _options.onError = onError;
+      if (latest.onBefore) {
+        config.onBefore = latest.onBefore;
+      }
+      if (latest.onSuccess) {
+        config.onSuccess = latest.onSuccess;
+      }
+      if (latest.onError) {
+        config.onError = latest.onError;
       }
 
-      return executeWithRetry<TData, TParameters>(service, requestParameters, _options);
+      return executeWithRetry<TData, TParameters>(latestService.current, requestParameters, config);
     },
-    [service, cacheKey, cacheTime, retry, onBefore, onSuccess, onError]
+    [cache, cacheTime, staleTime, withSignal, latestCacheKey, latestOptions, latestService]
   );
 
+  /**
+   * Show the loading state, honoring loadingDelay
+   */
+  const startLoading = useCallback((): void => {
+    if (loadingDelay > 0) {
+      loadingDelayTimer.current = setTimeout(() => {
+        setLoading(true);
+      }, loadingDelay);
+    } else {
+      setLoading(true);
+    }
+  }, [loadingDelay]);
+
   /**
    * Run the request
    */
   const runRequestNow = useCallback(
+    // eslint-disable-next-line max-statements -- Request lifecycle updates several independent state slices.
     async (requestParameters: TParameters, isRefresh = false): Promise<void> => {
+      const cachedEntry = isRefresh
+        ? undefined
+        : getCachedEntry(
+            cache,
+            getCacheKeyValue(latestCacheKey.current, requestParameters),
+            cacheTime
+          );
+      const controller = new AbortController();
+      let result: TData | undefined;
       let errorToReport: Error | undefined;
       try {
         setParameters(requestParameters);
         setError(undefined);
+        setCancelled(false);
+        setIsValidating(true);
 
-        // Loading delay
-        if (loadingDelay > 0) {
-          loadingDelayTimer.current = setTimeout(() => {
-            setLoading(true);
-          }, loadingDelay);
+        if (cachedEntry) {
+          // Serve cached data right away; stale data is revalidated without a loading state
+          setData(cachedEntry.data as TData);
+          setIsStale(isStaleEntry(cachedEntry, staleTime));
         } else {
-          setLoading(true);
+          startLoading();
         }
 
-        const result = await executeRequest(requestParameters, isRefresh);
+        result = await executeRequest(requestParameters, isRefresh, controller);
+        pollingErrorCount.current = 0;
         setData(result);
+        setIsStale(false);
       } catch (error_) {
+        if (controller.signal.aborted) {
+          setCancelled(true);
+          return;
+        }
+
         const errorObject = error_ instanceof Error ? error_ : new Error(String(error_));
+        pollingErrorCount.current += 1;
         errorToReport = errorObject;
         setError(errorObject);
         logHookError('useRequest', 'Request failed', errorObject, { params: requestParameters });
       } finally {
         clearTimeout(loadingDelayTimer.current);
         setLoading(false);
-        onFinally?.(requestParameters, latestData.current, errorToReport);
+        setIsValidating(false);
+        latestOptions.current.onFinally?.(
+          requestParameters,
+          result ?? latestData.current,
+          errorToReport
+        );
       }
     },
-    [loadingDelay, executeRequest, onFinally]
+    [cache, cacheTime, staleTime, startLoading, executeRequest, latestCacheKey, latestOptions]
   );
 
   const runRequest = useCallback(
@@ -572,31 +600,86 @@ export function useRequest<TData = unknown, TParameters extends unknown[] = []>(
     clearTimeout(debounceTimer.current);
     clearTimeout(throttleTimer.current);
     setLoading(false);
+    setIsValidating(false);
   }, []);
 
   /**
    * Mutate function
    */
-  const mutate = useCallback((newData: TData | ((oldData: TData | undefined) => TData)): void => {
-    const dataToSet =
-      typeof newData === 'function'
-        ? (newData as (oldData: TData | undefined) => TData)(latestData.current)
-        : newData;
-    setData(dataToSet);
-    latestData.current = dataToSet;
-  }, []);
+  const mutate = useCallback(
+    (newData: TData | ((oldData: TData | undefined) => TData)): void => {
+      const dataToSet =
+        typeof newData === 'function'
+          ? (newData as (oldData: TData | undefined) => TData)(latestData.current)
+          : newData;
+      setData(dataToSet);
+      latestData.current = dataToSet;
+
+      // Share the new data with every consumer of the same cache entry
+      const cacheKeyValue = latestParameters.current
+        ? getCacheKeyValue(latestCacheKey.current, latestParameters.current)
+        : undefined;
+      if (cacheKeyValue !== undefined) {
+        writeRequestCacheData(cache, cacheKeyValue, dataToSet);
+      }
+    },
+    [cache, latestCacheKey]
+  );
 
-  useInitialExecution(manual, defaultParams, ready, runRequest);
+  /**
+   * Apply cache updates made by other consumers of the same key
+   */
+  const handleCacheEntry = useCallback(
+    (entry: RequestCacheEntry): void => {
+      if (entry.invalidated) {
+        // Consumers of the key share one background revalidation through dedup
+        if (ready && latestParameters.current) {
+          void runRequestNow(latestParameters.current);
+        }
+        return;
+      }
+
+      latestData.current = entry.data as TData;
+      setData(entry.data as TData);
+      setIsStale(false);
+    },
+    [ready, runRequestNow]
+  );
+
+  useInitialExecution(manual, defaultParameters, ready, runRequest);
   useRefreshDepsEffect(refreshDeps, ready, latestParameters, runRequest);
   useWindowFocusRefreshEffect(refreshOnWindowFocus, focusThrottleWait, refresh, lastFocusTime);
   useReconnectRefreshEffect(refreshOnReconnect, refresh);
-  usePollingEffect(pollingInterval, pollingWhenHidden, refresh, pollingTimer);
-  useRequestCleanup(cancel, pollingTimer);
+
+  const cacheKeyValue = parameters ? getCacheKeyValue(cacheKey, parameters) : undefined;
+  const isVisible = useVisibility();
+  const isPollingLeader = useRequestBroadcast(
+    cache,
+    broadcast ? cacheKeyValue : undefined,
+    // A hidden tab pauses polling, so it hands the key over to a visible one
+    pollingInterval !== undefined && (pollingWhenHidden || isVisible)
+  );
+  usePollingEffect(
+    {
+      // Tabs sharing a broadcast key receive the responses of the tab polling it
+      pollingInterval: isPollingLeader ? pollingInterval : undefined,
+      pollingWhenHidden,
+      pollingErrorRetryCount,
+      stopPollingWhen,
+    },
+    { data, isValidating, errorCount: pollingErrorCount, isVisible },
+    refresh
+  );
+  useCacheSubscription(cache, cacheKeyValue, cacheTime, handleCacheEntry);
+  useRequestCleanup(cancel);
 
   return {
     data,
     loading,
+    isValidating,
+    isStale,
     error,
+    cancelled,
     params: parameters,
     run,
     runAsync,
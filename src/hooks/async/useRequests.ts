@@ -0,0 +1,412 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+import { logHookError } from '../../utils/errorLogging.js';
+import { useLatest } from '../state/useLatest.js';
+import { executeWithRetry, normalizeError } from './request/execute.js';
+import { retainRequestCacheKey } from './request/gc.js';
+import { getRequestCacheKey, hashRequestParams } from './request/keys.js';
+import { useRequestCache } from './request/RequestCacheProvider.js';
+import type { RequestCache, RequestCacheKey } from './request/types.js';
+import type { RetryPolicy } from './retry/types.js';
+import { resolveRequestTimeout } from './timeout/deadline.js';
+import type { RequestTimeout } from './timeout/types.js';
+
+/**
+ * One request run by useRequests
+ */
+export type RequestsEntry<TData, TParameters extends unknown[], TDependency = unknown> = {
+  /** Request service function */
+  service: (...args: TParameters) => Promise<TData>;
+  /**
+   * Service params, or a function building them from the data of the `dependsOn` entry
+   * @default []
+   */
+  params?: TParameters | ((dependency: TDependency) => TParameters);
+  /** Index of the entry whose data this entry waits for and receives in `params` */
+  dependsOn?: number;
+  /**
+   * Whether the entry runs
+   * @default true
+   */
+  enabled?: boolean;
+  /** Cache key shared with useRequest consumers of the same service */
+  cacheKey?: RequestCacheKey<TParameters>;
+  /** How long a cached response may be served, in milliseconds */
+  cacheTime?: number;
+  /** Tags stored with the cached response, for invalidateTags */
+  tags?: string[];
+  /** Retry policy */
+  retry?: RetryPolicy;
+  /** Time limit of each attempt, or `{ attempt, total }`, in milliseconds */
+  timeout?: number | RequestTimeout;
+};
+
+/**
+ * State of one entry of useRequests
+ */
+export type RequestsEntryState<TData> = {
+  data: TData | undefined;
+  error: Error | undefined;
+  loading: boolean;
+};
+
+type RequestsService = (...args: never[]) => Promise<unknown>;
+
+type RequestsServiceData<TService> = TService extends (...args: never[]) => Promise<infer TData>
+  ? TData
+  : never;
+
+/**
+ * Entries of useRequests, typed from their services
+ *
+ * A `params` function receives the data of the `dependsOn` entry, whose type is not known
+ * here, so its parameter must be annotated.
+ */
+export type RequestsEntries<TServices extends readonly RequestsService[]> = {
+  // `[...]` keeps array literals in `params` tuples while the services are being inferred
+  [K in keyof TServices]: RequestsEntry<
+    RequestsServiceData<TServices[K]>,
+    [...Parameters<TServices[K]>],
+    never
+  > & { service: TServices[K] };
+};
+
+/**
+ * Entry states of useRequests, in the order of the entries
+ */
+export type RequestsResults<TServices extends readonly RequestsService[]> = {
+  [K in keyof TServices]: RequestsEntryState<RequestsServiceData<TServices[K]>>;
+};
+
+/**
+ * Options for useRequests hook
+ */
+export type UseRequestsOptions<TResults, TCombined> = {
+  /** Derive one value from all entry states (the states array is returned when omitted) */
+  combine?: (results: TResults) => TCombined;
+};
+
+/**
+ * Requests result interface
+ */
+export type UseRequestsResult<TResults, TCombined> = {
+  /** Entry states in the order of the entries */
+  results: TResults;
+  /** Output of `combine`, or the entry states */
+  data: TCombined;
+  /** Whether any entry is loading */
+  loading: boolean;
+  /** First entry error */
+  error: Error | undefined;
+  /** Refetch every entry that can run, bypassing the cache */
+  refresh: () => void;
+};
+
+const IDLE_STATE: RequestsEntryState<unknown> = {
+  data: undefined,
+  error: undefined,
+  loading: false,
+};
+const DEFAULT_CACHE_TIME = 5 * 60 * 1000; // 5 minutes
+const DEFAULT_RETRY: RetryPolicy = { count: 0 };
+
+type UntypedRequestsEntry = RequestsEntry<unknown, unknown[]>;
+
+type RequestsStates = Partial<Record<string, RequestsEntryState<unknown>>>;
+
+/**
+ * Params of an entry (undefined when it cannot run) and the key of its state
+ */
+type ResolvedEntry = {
+  parameters: unknown[] | undefined;
+  cacheKeyValue: string | undefined;
+  stateKey: string;
+};
+
+/**
+ * Key an entry reruns on: its params and its cache entry key, so swapping the `cacheKey`
+ * along with the service fetches again
+ */
+function getRunKey({ parameters, cacheKeyValue }: ResolvedEntry): string | undefined {
+  return parameters && JSON.stringify([cacheKeyValue, hashRequestParams(parameters)]);
+}
+
+function resolveParameters(
+  entry: UntypedRequestsEntry,
+  getDependencyData: (index: number) => unknown
+): unknown[] | undefined {
+  if (entry.enabled === false) {
+    return undefined;
+  }
+
+  const dependency = entry.dependsOn === undefined ? undefined : getDependencyData(entry.dependsOn);
+  if (entry.dependsOn !== undefined && dependency === undefined) {
+    return undefined;
+  }
+  return typeof entry.params === 'function' ? entry.params(dependency) : (entry.params ?? []);
+}
+
+function getEntryCacheKey(
+  entry: UntypedRequestsEntry | undefined,
+  parameters: unknown[]
+): string | undefined {
+  return entry?.cacheKey ? getRequestCacheKey(entry.cacheKey, parameters) : undefined;
+}
+
+/**
+ * Resolve the params of every entry, following `dependsOn` through the states
+ *
+ * States are keyed by cache key, so they stay with their request when entries are added,
+ * removed or reordered; entries without a cache key fall back to their index.
+ */
+function resolveEntries(
+  entries: readonly UntypedRequestsEntry[],
+  states: RequestsStates
+): ResolvedEntry[] {
+  const resolved = new Map<number, ResolvedEntry>();
+
+  const resolve = (index: number): ResolvedEntry => {
+    const known = resolved.get(index);
+    if (known) {
+      return known;
+    }
+
+    const stateKey = `index:${index}`;
+    // Entries depending on themselves, directly or not, wait forever
+    resolved.set(index, { parameters: undefined, cacheKeyValue: undefined, stateKey });
+    const entry = entries[index];
+    const parameters =
+      entry &&
+      resolveParameters(entry, (dependsOn) => {
+        const dependency = resolve(dependsOn);
+        return dependency.parameters ? states[dependency.stateKey]?.data : undefined;
+      });
+    const cacheKeyValue = parameters && getEntryCacheKey(entry, parameters);
+    const result = {
+      parameters,
+      cacheKeyValue,
+      stateKey: cacheKeyValue === undefined ? stateKey : `cache:${cacheKeyValue}`,
+    };
+    resolved.set(index, result);
+    return result;
+  };
+
+  return entries.map((_, index) => resolve(index));
+}
+
+function useEntryCacheSubscriptions(
+  cache: RequestCache,
+  entries: readonly UntypedRequestsEntry[],
+  resolvedEntries: ResolvedEntry[],
+  onEntry: (index: number, data: unknown, invalidated: boolean) => void
+): void {
+  const latestEntries = useLatest(entries);
+  const latestResolved = useLatest(resolvedEntries);
+  const signature = resolvedEntries.map(({ cacheKeyValue }) => cacheKeyValue).join('\n');
+
+  useEffect(() => {
+    const cleanups = latestResolved.current.map(({ cacheKeyValue }, index) => {
+      if (cacheKeyValue === undefined) {
+        return undefined;
+      }
+
+      const cacheTime = latestEntries.current[index]?.cacheTime ?? DEFAULT_CACHE_TIME;
+      const release = retainRequestCacheKey(cache, cacheKeyValue, cacheTime);
+      const unsubscribe = cache.subscribe(cacheKeyValue, (entry) => {
+        if (entry) {
+          onEntry(index, entry.data, entry.invalidated === true);
+        }
+      });
+      return () => {
+        unsubscribe();
+        release();
+      };
+    });
+
+    return () => {
+      for (const cleanup of cleanups) {
+        cleanup?.();
+      }
+    };
+  }, [cache, latestResolved, latestEntries, onEntry, signature]);
+}
+
+/**
+ * Hook for running a list of requests in parallel, or in sequence through `dependsOn`
+ *
+ * Every entry shares the request cache, dedup and retry behavior of useRequest. An entry
+ * with `dependsOn` waits until the referenced entry has data and then builds its params
+ * from that data; it reruns whenever the dependency data changes. Entries rerun when their
+ * params or cache key change, so give an entry whose service changes a `cacheKey` naming it.
+ *
+ * @template TServices - The services of the entries
+ * @template TCombined - The type returned by `combine`
+ * @param entries - Requests to run
+ * @param options - Requests options
+ * @returns Entry states, combined data and aggregate loading/error state
+ *
+ * @example
+ * ```tsx
+ * const { results, loading } = useRequests([
+ *   { service: fetchUser, params: [userId], cacheKey: 'user' },
+ *   { service: fetchTeam, dependsOn: 0, params: (user: User) => [user.teamId] },
+ * ]);
+ * const [user, team] = results;
+ *
+ * const { data: users } = useRequests(
+ *   ids.map((id) => ({ service: fetchUser, params: [id] as [string], cacheKey: 'user' })),
+ *   { combine: (results) => results.map((result) => result.data) }
+ * );
+ * ```
+ */
+// eslint-disable-next-line max-lines-per-function -- Coordinates per-entry lifecycles with shared aggregate state.
+export function useRequests<
+  const TServices extends readonly RequestsService[],
+  TCombined = RequestsResults<TServices>,
+>(
+  entries: RequestsEntries<TServices>,
+  options: UseRequestsOptions<RequestsResults<TServices>, TCombined> = {}
+): UseRequestsResult<RequestsResults<TServices>, TCombined> {
+  // Services are called with the params their entry was checked against
+  const untypedEntries = entries as unknown as readonly UntypedRequestsEntry[];
+  const cache = useRequestCache();
+  const [states, setStates] = useState<RequestsStates>({});
+  const controllers = useRef<Array<AbortController | undefined>>([]);
+  const lastRunKeys = useRef<Array<string | undefined>>([]);
+
+  const resolvedEntries = resolveEntries(untypedEntries, states);
+  const runKeys = resolvedEntries.map((resolved) => getRunKey(resolved));
+  const signature = JSON.stringify([resolvedEntries.map((entry) => entry.stateKey), runKeys]);
+  const latestEntries = useLatest(untypedEntries);
+  const latestResolved = useLatest(resolvedEntries);
+
+  const updateState = useCallback(
+    (stateKey: string, patch: Partial<RequestsEntryState<unknown>>): void => {
+      setStates((previousStates) => {
+        // Drop the states no entry uses anymore
+        const nextStates: RequestsStates = {};
+        for (const { stateKey: key } of latestResolved.current) {
+          nextStates[key] = previousStates[key];
+        }
+        nextStates[stateKey] = { ...(previousStates[stateKey] ?? IDLE_STATE), ...patch };
+        return nextStates;
+      });
+    },
+    [latestResolved]
+  );
+
+  const runEntry = useCallback(
+    async (
+      index: number,
+      parameters: unknown[],
+      stateKey: string,
+      isRefresh: boolean
+    ): Promise<void> => {
+      const entry = latestEntries.current[index];
+      if (!entry) {
+        return;
+      }
+
+      controllers.current[index]?.abort();
+      const controller = new AbortController();
+      controllers.current[index] = controller;
+      const cacheKeyValue = getEntryCacheKey(entry, parameters);
+      updateState(stateKey, { loading: true, error: undefined });
+
+      try {
+        const cacheTime = entry.cacheTime ?? DEFAULT_CACHE_TIME;
+        const data = await executeWithRetry(entry.service, parameters, {
+          cache,
+          ...(cacheKeyValue !== undefined && { cacheKeyValue }),
+          cacheTime,
+          freshTime: cacheTime,
+          isRefresh,
+          retry: entry.retry ?? DEFAULT_RETRY,
+          signal: controller.signal,
+          withSignal: false,
+          ...(entry.tags && { tags: entry.tags }),
+          ...(entry.timeout !== undefined && { timeout: resolveRequestTimeout(entry.timeout) }),
+        });
+        updateState(stateKey, { data, error: undefined, loading: false });
+      } catch (error) {
+        if (controller.signal.aborted) {
+          return;
+        }
+        const errorObject = normalizeError(error);
+        updateState(stateKey, { error: errorObject, loading: false });
+        logHookError('useRequests', 'Request failed', errorObject, { index, params: parameters });
+      }
+    },
+    [cache, latestEntries, updateState]
+  );
+
+  useEffect(() => {
+    for (const [index, resolved] of latestResolved.current.entries()) {
+      const { parameters, stateKey } = resolved;
+      const runKey = getRunKey(resolved);
+      if (runKey === lastRunKeys.current[index]) {
+        continue;
+      }
+
+      lastRunKeys.current[index] = runKey;
+      if (parameters) {
+        void runEntry(index, parameters, stateKey, false);
+      } else {
+        // Disabled, or the dependency has no data (anymore)
+        controllers.current[index]?.abort();
+      }
+    }
+  }, [latestResolved, runEntry, signature]);
+
+  useEffect(() => {
+    const entryControllers = controllers.current;
+    return () => {
+      for (const controller of entryControllers) {
+        controller?.abort();
+      }
+    };
+  }, []);
+
+  const handleCacheEntry = useCallback(
+    (index: number, data: unknown, invalidated: boolean): void => {
+      const resolved = latestResolved.current[index];
+      if (!resolved) {
+        return;
+      }
+      if (invalidated) {
+        if (resolved.parameters) {
+          void runEntry(index, resolved.parameters, resolved.stateKey, false);
+        }
+        return;
+      }
+      updateState(resolved.stateKey, { data });
+    },
+    [latestResolved, runEntry, updateState]
+  );
+  useEntryCacheSubscriptions(cache, untypedEntries, resolvedEntries, handleCacheEntry);
+
+  const refresh = useCallback((): void => {
+    for (const [index, { parameters, stateKey }] of latestResolved.current.entries()) {
+      if (parameters) {
+        void runEntry(index, parameters, stateKey, true);
+      }
+    }
+  }, [latestResolved, runEntry]);
+
+  const results = resolvedEntries.map(({ stateKey }, index) => {
+    const state = states[stateKey] ?? IDLE_STATE;
+    // An entry whose params changed is reported as loading until its effect starts it
+    const runKey = runKeys[index];
+    const isPending = runKey !== undefined && runKey !== lastRunKeys.current[index];
+    return isPending ? { ...state, loading: true } : state;
+  }) as RequestsResults<TServices>;
+  const { combine } = options;
+
+  return {
+    results,
+    data: combine ? combine(results) : (results as unknown as TCombined),
+    loading: results.some((result: RequestsEntryState<unknown>) => result.loading),
+    error: results.find((result: RequestsEntryState<unknown>) => result.error)?.error,
+    refresh,
+  };
+}
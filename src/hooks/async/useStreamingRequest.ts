@@ -0,0 +1,323 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+import { logHookError } from '../../utils/errorLogging.js';
+import { useLatest } from '../state/useLatest.js';
+import { type ExecuteConfig, executeWithRetry, normalizeError } from './request/execute.js';
+import { useRequestCache } from './request/RequestCacheProvider.js';
+import { closeStream, type OpenedStream, openStream, readStreamChunk } from './request/stream.js';
+import type { RetryPolicy } from './retry/types.js';
+
+/**
+ * Streamed response: a ReadableStream (e.g. `response.body`) or any async iterable
+ */
+export type StreamSource<TChunk> = ReadableStream<TChunk> | AsyncIterable<TChunk>;
+
+/**
+ * Fold a chunk into the accumulated data (`data` is undefined for the first chunk)
+ */
+export type StreamReducer<TChunk, TData> = (data: TData | undefined, chunk: TChunk) => TData;
+
+/**
+ * Options for useStreamingRequest hook
+ */
+export type UseStreamingRequestOptions<TChunk, TData, TParameters extends unknown[]> = {
+  /** Whether to wait for `run` instead of executing on mount */
+  manual?: boolean;
+  /** Default parameters, the request executes on mount when they are set */
+  defaultParams?: TParameters;
+  /**
+   * Accumulate chunks into `data`
+   * @default collects the chunks in an array
+   */
+  reducer?: StreamReducer<TChunk, TData>;
+  /**
+   * Retry policy applied until the first chunk arrives; a stream failing after that is
+   * not retried, as its chunks were already delivered
+   */
+  retry?: RetryPolicy;
+  /**
+   * Pass a `RequestContext` with an AbortSignal to the service, appended after the params.
+   * Declare it as an optional last service parameter: `(prompt: string, context?: RequestContext)`.
+   */
+  withSignal?: boolean;
+  /** onBefore callback, called before each attempt */
+  onBefore?: (parameters: TParameters) => void;
+  /** Called with each chunk and the data accumulated so far */
+  onChunk?: (chunk: TChunk, data: TData) => void;
+  /** onSuccess callback, called once the stream ends */
+  onSuccess?: (data: TData | undefined, parameters: TParameters) => void;
+  /** onError callback */
+  onError?: (error: Error, parameters: TParameters) => void;
+  /** onFinally callback */
+  onFinally?: (parameters: TParameters, data?: TData, error?: Error) => void;
+};
+
+/**
+ * Streaming request result interface
+ */
+export type UseStreamingRequestResult<TChunk, TData, TParameters extends unknown[]> = {
+  /** Chunks received so far */
+  chunks: TChunk[];
+  /** Chunks accumulated through the reducer */
+  data: TData | undefined;
+  /** Whether the stream ended */
+  done: boolean;
+  /** Whether the request is opening or streaming */
+  loading: boolean;
+  /** Error that ended the request */
+  error: Error | undefined;
+  /** Whether the last request was aborted */
+  cancelled: boolean;
+  /** Request parameters */
+  params: TParameters | undefined;
+  /** Start the request, aborting the one in flight */
+  run: (...parameters: TParameters) => void;
+  /** Start the request and resolve with the accumulated data once the stream ends */
+  runAsync: (...parameters: TParameters) => Promise<TData | undefined>;
+  /** Abort the request and stop reading the stream (received chunks are kept) */
+  abort: () => void;
+};
+
+type StreamingState<TChunk, TData, TParameters> = {
+  chunks: TChunk[];
+  data: TData | undefined;
+  done: boolean;
+  loading: boolean;
+  error: Error | undefined;
+  cancelled: boolean;
+  params: TParameters | undefined;
+};
+
+function getStartedState<TChunk, TData, TParameters>(
+  parameters: TParameters
+): StreamingState<TChunk, TData, TParameters> {
+  return {
+    chunks: [],
+    data: undefined,
+    done: false,
+    loading: true,
+    error: undefined,
+    cancelled: false,
+    params: parameters,
+  };
+}
+
+/**
+ * Chunks of one request, appended as they arrive and flushed to state at most once a frame
+ */
+type ChunkBuffer<TChunk, TData> = {
+  /** Append a chunk and return the data accumulated so far */
+  push: (chunk: TChunk) => TData;
+  /** Flush the chunks not flushed yet and return the accumulated data */
+  flush: () => TData | undefined;
+};
+
+function scheduleFrame(callback: () => void): () => void {
+  if (typeof requestAnimationFrame === 'function') {
+    const id = requestAnimationFrame(callback);
+    return () => cancelAnimationFrame(id);
+  }
+  const id = setTimeout(callback, 16);
+  return () => clearTimeout(id);
+}
+
+function createChunkBuffer<TChunk, TData>(
+  reducer: StreamReducer<TChunk, TData> | undefined,
+  onFlush: (chunks: TChunk[], data: TData | undefined) => void
+): ChunkBuffer<TChunk, TData> {
+  const chunks: TChunk[] = [];
+  let data: TData | undefined;
+  let cancelFrame: (() => void) | undefined;
+
+  const flush = (): TData | undefined => {
+    if (cancelFrame) {
+      cancelFrame();
+      cancelFrame = undefined;
+      const snapshot = [...chunks];
+      // Without a reducer, the data is the array of chunks
+      data = reducer ? data : (snapshot as TData);
+      onFlush(snapshot, data);
+    }
+    return data;
+  };
+
+  return {
+    push(chunk) {
+      chunks.push(chunk);
+      cancelFrame ??= scheduleFrame(flush);
+      if (reducer) {
+        data = reducer(data, chunk);
+        return data;
+      }
+      return chunks as TData;
+    },
+    flush,
+  };
+}
+
+async function readChunks<TChunk>(
+  { first, iterator }: OpenedStream<TChunk>,
+  signal: AbortSignal,
+  onChunk: (chunk: TChunk) => void
+): Promise<void> {
+  let result = first;
+
+  try {
+    while (!result.done) {
+      onChunk(result.value);
+      result = await readStreamChunk(iterator, signal);
+    }
+  } catch (error) {
+    closeStream(iterator);
+    throw error;
+  }
+}
+
+/**
+ * Hook for requests whose response arrives in chunks, such as LLM completions
+ *
+ * The service returns a ReadableStream or an async iterable. Chunks are exposed as they
+ * arrive and folded into `data` with `reducer`, with state updated at most once per
+ * animation frame however fast they come. Failures before the first chunk are retried
+ * according to `retry`; `abort()` cancels the request and the stream.
+ *
+ * @template TChunk - The chunk type of the stream
+ * @template TData - The accumulated data type
+ * @template TParameters - The parameter types for the request
+ * @param service - Service returning the stream
+ * @param options - Streaming request options
+ * @returns Streaming request result object
+ *
+ * @example
+ * ```tsx
+ * const decoder = new TextDecoder();
+ * const { data: text, done, abort, run } = useStreamingRequest(
+ *   async (prompt: string) => {
+ *     const response = await fetch('/api/complete', { method: 'POST', body: prompt });
+ *     return response.body!;
+ *   },
+ *   {
+ *     manual: true,
+ *     reducer: (text = '', chunk: Uint8Array) => text + decoder.decode(chunk, { stream: true }),
+ *   }
+ * );
+ * ```
+ */
+// eslint-disable-next-line max-lines-per-function -- Hook wires the stream lifecycle into React state.
+export function useStreamingRequest<TChunk, TData = TChunk[], TParameters extends unknown[] = []>(
+  service: (...args: TParameters) => Promise<StreamSource<TChunk>> | StreamSource<TChunk>,
+  options: UseStreamingRequestOptions<TChunk, TData, TParameters> = {}
+): UseStreamingRequestResult<TChunk, TData, TParameters> {
+  const { manual = false, defaultParams, withSignal = false } = options;
+
+  const cache = useRequestCache();
+  const [state, setState] = useState<StreamingState<TChunk, TData, TParameters>>({
+    chunks: [],
+    data: undefined,
+    done: false,
+    loading: false,
+    error: undefined,
+    cancelled: false,
+    params: defaultParams,
+  });
+  const abortController = useRef<AbortController>();
+  const latestService = useLatest(service);
+  const latestOptions = useLatest(options);
+
+  const openRequest = useCallback(
+    (parameters: TParameters, signal: AbortSignal): Promise<OpenedStream<TChunk>> => {
+      const { retry = { count: 0 }, onBefore } = latestOptions.current;
+      const config: ExecuteConfig<OpenedStream<TChunk>, TParameters> = {
+        cache,
+        freshTime: 0,
+        isRefresh: true,
+        retry,
+        signal,
+        withSignal,
+        ...(onBefore && { onBefore }),
+      };
+
+      return executeWithRetry(
+        async (...args: TParameters) => openStream(await latestService.current(...args), signal),
+        parameters,
+        config
+      );
+    },
+    [cache, withSignal, latestOptions, latestService]
+  );
+
+  const runAsync = useCallback(
+    // eslint-disable-next-line max-statements -- Stream lifecycle updates state at each stage.
+    async (...parameters: TParameters): Promise<TData | undefined> => {
+      abortController.current?.abort();
+      const controller = new AbortController();
+      abortController.current = controller;
+      const isCurrent = (): boolean => abortController.current === controller;
+
+      setState(getStartedState(parameters));
+
+      const { reducer, onChunk } = latestOptions.current;
+      const buffer = createChunkBuffer<TChunk, TData>(reducer, (chunks, data) => {
+        // A newer request owns the state when this one was replaced
+        if (isCurrent()) {
+          setState((previous) => ({ ...previous, chunks, data }));
+        }
+      });
+      try {
+        const opened = await openRequest(parameters, controller.signal);
+        await readChunks(opened, controller.signal, (chunk) => {
+          const data = buffer.push(chunk);
+          onChunk?.(chunk, data);
+        });
+
+        const data = buffer.flush();
+        if (isCurrent()) {
+          setState((previous) => ({ ...previous, done: true, loading: false }));
+        }
+        latestOptions.current.onSuccess?.(data, parameters);
+        latestOptions.current.onFinally?.(parameters, data);
+        return data;
+      } catch (error) {
+        buffer.flush();
+        const errorObject = normalizeError(error);
+        if (controller.signal.aborted) {
+          if (isCurrent()) {
+            setState((previous) => ({ ...previous, loading: false, cancelled: true }));
+          }
+        } else {
+          setState((previous) => ({ ...previous, loading: false, error: errorObject }));
+          logHookError('useStreamingRequest', 'Request failed', errorObject, {
+            params: parameters,
+          });
+          latestOptions.current.onError?.(errorObject, parameters);
+        }
+        latestOptions.current.onFinally?.(parameters, undefined, errorObject);
+        throw errorObject;
+      }
+    },
+    [latestOptions, openRequest]
+  );
+
+  const run = useCallback(
+    (...parameters: TParameters): void => {
+      runAsync(...parameters).catch(() => undefined);
+    },
+    [runAsync]
+  );
+
+  const abort = useCallback((): void => {
+    abortController.current?.abort();
+  }, []);
+
+  const defaultParameters = useLatest(defaultParams);
+  useEffect(() => {
+    const parameters = defaultParameters.current;
+    if (!manual && parameters) {
+      run(...parameters);
+    }
+  }, [defaultParameters, manual, run]);
+
+  useEffect(() => abort, [abort]);
+
+  return { ...state, run, runAsync, abort };
+}
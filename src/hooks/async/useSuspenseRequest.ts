@@ -0,0 +1,223 @@
+import { logHookError } from '../../utils/errorLogging.js';
+import { useUpdateEffect } from '../lifecycle/useUpdateEffect.js';
+import { useLatest } from '../state/useLatest.js';
+import { defaultRequestCache } from './request/cache.js';
+import { type ExecuteConfig, executeWithRetry, normalizeError } from './request/execute.js';
+import { getRequestCacheKey, isRequestCacheKeyOf } from './request/keys.js';
+import type { MutateCacheOptions } from './request/mutateCache.js';
+import { useRequestCache } from './request/RequestCacheProvider.js';
+import {
+  clearSuspenseErrors,
+  getSuspenseRecords,
+  type SuspenseRecord,
+} from './request/suspense.js';
+import type { RequestCache, RequestCacheKey } from './request/types.js';
+import { resolveRequestTimeout } from './timeout/deadline.js';
+import { useRequest, type UseRequestOptions, type UseRequestResult } from './useRequest.js';
+
+/**
+ * Options for useSuspenseRequest hook
+ */
+export type UseSuspenseRequestOptions<TData, TParameters extends unknown[]> = Omit<
+  UseRequestOptions<TData, TParameters>,
+  'cacheKey' | 'manual' | 'ready'
+> & {
+  /** Cache key the suspended result is stored under (required so it survives the suspended render) */
+  cacheKey: RequestCacheKey<TParameters>;
+};
+
+/**
+ * Suspense request result interface
+ */
+export type UseSuspenseRequestResult<TData, TParameters extends unknown[]> = Omit<
+  UseRequestResult<TData, TParameters>,
+  'data'
+> & {
+  /** Response data (always available, the component suspends until it is) */
+  data: TData;
+};
+
+/**
+ * Options for resetSuspenseRequest
+ */
+export type ResetSuspenseRequestOptions<TParameters extends readonly unknown[] = unknown[]> = Omit<
+  MutateCacheOptions,
+  'params'
+> & {
+  /** Only reset the request for these params (every request of the cacheKey when omitted) */
+  params?: TParameters;
+};
+
+type SuspenseConfig<TData, TParameters extends unknown[]> = ExecuteConfig<TData, TParameters> & {
+  cacheKeyValue: string;
+  cacheKey: RequestCacheKey<TParameters>;
+};
+
+const DEFAULT_CACHE_TIME = 5 * 60 * 1000; // 5 minutes
+
+function getSuspenseConfig<TData, TParameters extends unknown[]>(
+  cache: RequestCache,
+  cacheKeyValue: string,
+  options: UseSuspenseRequestOptions<TData, TParameters>
+): SuspenseConfig<TData, TParameters> {
+  const { cacheTime = DEFAULT_CACHE_TIME, retry = { count: 0 }, withSignal = false } = options;
+  const { tags, timeout, onBefore, onSuccess, onError } = options;
+
+  return {
+    cache,
+    cacheKeyValue,
+    cacheKey: options.cacheKey,
+    cacheTime,
+    // Any cached entry within cacheTime is rendered; useRequest revalidates it after mount
+    freshTime: cacheTime,
+    isRefresh: false,
+    retry,
+    // The suspended render never mounts, so there is nothing to abort it
+    signal: new AbortController().signal,
+    withSignal,
+    ...(tags && { tags }),
+    ...(timeout !== undefined && { timeout: resolveRequestTimeout(timeout) }),
+    ...(onBefore && { onBefore }),
+    ...(onSuccess && { onSuccess }),
+    ...(onError && { onError }),
+  };
+}
+
+function readOrSuspend<TData, TParameters extends unknown[]>(
+  service: (...args: TParameters) => Promise<TData>,
+  requestParameters: TParameters,
+  config: SuspenseConfig<TData, TParameters>
+): TData {
+  const { cache, cacheKeyValue } = config;
+  const entry = cache.get(cacheKeyValue);
+  if (entry && Date.now() - entry.timestamp < config.freshTime) {
+    return entry.data as TData;
+  }
+
+  const records = getSuspenseRecords(cache);
+  const record = records.get(cacheKeyValue);
+  if (record) {
+    // Failures are kept until reset, so React's retries and other boundaries reading the
+    // key do not refetch in a loop
+    throw record.error ?? record.promise;
+  }
+
+  // Joins a request already in flight for the key through the cache's dedup map
+  const newRecord: SuspenseRecord = {
+    cacheKey: config.cacheKey,
+    ...(config.tags && { tags: config.tags }),
+    promise: executeWithRetry(service, requestParameters, config).then(
+      () => {
+        records.delete(cacheKeyValue);
+      },
+      (error: unknown) => {
+        newRecord.error = normalizeError(error);
+        logHookError('useSuspenseRequest', 'Request failed', newRecord.error, {
+          params: requestParameters,
+        });
+      }
+    ),
+  };
+  records.set(cacheKeyValue, newRecord);
+  throw newRecord.promise;
+}
+
+/**
+ * Forget the failures of suspense requests so their next render fetches again
+ *
+ * Call it when an error boundary resets; until then (or until invalidateCache or
+ * invalidateTags targets the key) renders rethrow the same error. A function `cacheKey`
+ * resets the key it returns for `params`, or without them every request made with that
+ * same function.
+ *
+ * @param cacheKey - The `cacheKey` passed to useSuspenseRequest
+ * @param options - Params and cache to target
+ *
+ * @example
+ * ```tsx
+ * <ErrorBoundary onReset={() => resetSuspenseRequest('user')} fallbackRender={RetryButton}>
+ *   <Suspense fallback={<Spinner />}>
+ *     <UserProfile userId="123" />
+ *   </Suspense>
+ * </ErrorBoundary>
+ * ```
+ */
+export function resetSuspenseRequest<TParameters extends readonly unknown[]>(
+  cacheKey: RequestCacheKey<TParameters>,
+  options: ResetSuspenseRequestOptions<TParameters> = {}
+): void {
+  const { params, cache = defaultRequestCache } = options;
+  const paramsKey = params && getRequestCacheKey(cacheKey, params);
+
+  clearSuspenseErrors(cache, (key, record) => {
+    if (paramsKey !== undefined) {
+      return key === paramsKey;
+    }
+    return typeof cacheKey === 'function'
+      ? record.cacheKey === cacheKey
+      : isRequestCacheKeyOf(key, cacheKey);
+  });
+}
+
+/**
+ * Suspense version of useRequest
+ *
+ * Suspends the component until the first response is cached and throws request
+ * errors to the nearest error boundary. Data already in the request cache (for example
+ * prefetched during SSR) is returned synchronously without suspending. Once mounted it
+ * behaves like useRequest: stale data is revalidated in the background and later
+ * failures are reported through `error`. Changing `defaultParams` suspends again until
+ * the new params are cached. After a failure, call resetSuspenseRequest when the error
+ * boundary resets to fetch again.
+ *
+ * @template TData - The return type of the request
+ * @template TParams - The parameter types for the request
+ * @param service - Request service function
+ * @param options - Request options, `cacheKey` is required
+ * @returns Request result object with non-optional data
+ *
+ * @example
+ * ```tsx
+ * function UserProfile({ userId }: { userId: string }) {
+ *   const { data: user } = useSuspenseRequest(fetchUser, {
+ *     cacheKey: 'user',
+ *     defaultParams: [userId],
+ *   });
+ *   return <h1>{user.name}</h1>;
+ * }
+ *
+ * <ErrorBoundary fallback={<Error />}>
+ *   <Suspense fallback={<Spinner />}>
+ *     <UserProfile userId="123" />
+ *   </Suspense>
+ * </ErrorBoundary>
+ * ```
+ */
+export function useSuspenseRequest<TData = unknown, TParameters extends unknown[] = []>(
+  service: (...args: TParameters) => Promise<TData>,
+  options: UseSuspenseRequestOptions<TData, TParameters>
+): UseSuspenseRequestResult<TData, TParameters> {
+  const { cacheKey, defaultParams = [] as unknown as TParameters } = options;
+
+  const cache = useRequestCache();
+  const request = useRequest(service, { ...options, defaultParams });
+  const cacheKeyValue = getRequestCacheKey(cacheKey, defaultParams);
+  const latestDefaultParameters = useLatest(defaultParams);
+
+  const { run } = request;
+  useUpdateEffect(() => {
+    // The suspended render already cached the new params, so this resolves from the cache
+    run(...latestDefaultParameters.current);
+  }, [cacheKeyValue]);
+
+  const hasCurrentData =
+    request.data !== undefined &&
+    request.params !== undefined &&
+    getRequestCacheKey(cacheKey, request.params) === cacheKeyValue;
+
+  const data = hasCurrentData
+    ? (request.data as TData)
+    : readOrSuspend(service, defaultParams, getSuspenseConfig(cache, cacheKeyValue, options));
+
+  return { ...request, data };
+}
@@ -1,36 +1,40 @@
-import { useEffect, useRef } from 'react';
+import type { TimerControls, UseTimerOptions } from './timer/types.js';
+import { useTimer } from './timer/useTimer.js';
+
+/**
+ * Options for useTimeout hook
+ */
+export type UseTimeoutOptions = UseTimerOptions;
 
 /**
  * Hook that runs a callback after a specified delay
  *
  * @param callback - Function to call after delay
  * @param delay - Delay in milliseconds (null to cancel)
+ * @param options - Timeout options
+ * @returns Controls to pause, resume and reset the timeout; `reset` also re-arms it after it
+ * fired
  *
  * @example
  * ```tsx
- * const Component = () => {
- *   const [show, setShow] = useState(false);
- *   useTimeout(() => setShow(true), 1000);
- *   return <div>{show ? 'Shown' : 'Hidden'}</div>;
+ * const Session = ({ children, onExpire }: { children: ReactNode; onExpire: () => void }) => {
+ *   const [warning, setWarning] = useState(false);
+ *   const { reset, remaining } = useTimeout(onExpire, 15 * 60 * 1000);
+ *   useInterval(() => setWarning(remaining() < 60_000), 1000);
+ *
+ *   return (
+ *     <div onPointerDown={reset}>
+ *       {warning && <p>Your session expires in {Math.ceil(remaining() / 1000)}s</p>}
+ *       {children}
+ *     </div>
+ *   );
  * };
  * ```
  */
-export function useTimeout(callback: () => void, delay: number | null): void {
-  const savedCallback = useRef(callback);
-
-  useEffect(() => {
-    savedCallback.current = callback;
-  }, [callback]);
-
-  useEffect(() => {
-    if (delay === null) {
-      return;
-    }
-
-    const id = setTimeout(() => {
-      savedCallback.current();
-    }, delay);
-
-    return () => clearTimeout(id);
-  }, [delay]);
+export function useTimeout(
+  callback: () => void,
+  delay: number | null,
+  options: UseTimeoutOptions = {}
+): TimerControls {
+  return useTimer(callback, delay, { ...options, repeat: false });
 }
@@ -24,6 +24,9 @@ export * from './events/index.js';
 // Async hooks
 export * from './async/index.js';
 
+// Realtime hooks
+export * from './realtime/index.js';
+
 // Performance hooks
 export * from './performance/index.js';
 
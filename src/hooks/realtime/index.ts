@@ -0,0 +1,7 @@
+/**
+ * Realtime hooks export
+ */
+
+export type { ConnectionStatus } from './types.js';
+export * from './useEventSource.js';
+export * from './useWebSocket.js';
@@ -0,0 +1,32 @@
+/**
+ * Reconnection backoff shared by the realtime hooks
+ */
+
+import { getRetryDelay } from '../async/retry/policy.js';
+import type { RetryPolicy } from '../async/retry/types.js';
+
+/**
+ * Reconnect forever, waiting 1s, 2s, 4s... up to 30s between attempts
+ *
+ * @internal
+ */
+export const DEFAULT_RECONNECT_POLICY: RetryPolicy = { count: Infinity, jitter: 'equal' };
+
+/**
+ * Delay before the next reconnection attempt, or undefined to give up
+ *
+ * @param policy - Reconnection policy, false to never reconnect
+ * @param attempt - The reconnection about to be made (1-based)
+ * @param error - Error that dropped the connection
+ * @param elapsed - Milliseconds since the connection last opened or was first attempted
+ *
+ * @internal
+ */
+export function getReconnectDelay(
+  policy: RetryPolicy | false,
+  attempt: number,
+  error: Error,
+  elapsed: number
+): number | undefined {
+  return policy === false ? undefined : getRetryDelay(policy, attempt, error, elapsed);
+}
@@ -0,0 +1,14 @@
+/**
+ * Realtime connection types shared by the realtime hooks
+ */
+
+/**
+ * State of a realtime connection
+ *
+ * - `'connecting'`: the first connection attempt is in progress
+ * - `'open'`: connected and receiving messages
+ * - `'reconnecting'`: the connection dropped and a new attempt is scheduled or in progress
+ * - `'paused'`: disconnected while the page is hidden, reconnects once it is visible
+ * - `'closed'`: disconnected by `close()`, because it is disabled, or after giving up
+ */
+export type ConnectionStatus = 'connecting' | 'open' | 'reconnecting' | 'paused' | 'closed';
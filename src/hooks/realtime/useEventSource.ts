@@ -0,0 +1,315 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+import { logHookWarning } from '../../utils/errorLogging.js';
+import type { RetryPolicy } from '../async/retry/types.js';
+import { useVisibility } from '../browser/useVisibility.js';
+import { useLatest } from '../state/useLatest.js';
+import { DEFAULT_RECONNECT_POLICY, getReconnectDelay } from './reconnect.js';
+import type { ConnectionStatus } from './types.js';
+
+/**
+ * Event received from an event source, typed by event name
+ */
+export type EventSourceMessage<TEvents extends Record<string, unknown>> = {
+  [TType in keyof TEvents & string]: {
+    /** Event name (`'message'` for unnamed events) */
+    type: TType;
+    /** Parsed event data */
+    data: TEvents[TType];
+    /** Id sent by the server with the event (empty when none) */
+    lastEventId: string;
+  };
+}[keyof TEvents & string];
+
+/**
+ * Options for useEventSource hook
+ */
+export type UseEventSourceOptions<TEvents extends Record<string, unknown>> = {
+  /**
+   * Event names to listen for
+   * @default ['message']
+   */
+  events?: Array<keyof TEvents & string>;
+  /**
+   * Parse the data of an event
+   * @default JSON, falling back to the raw string
+   */
+  parse?: (data: string, type: keyof TEvents & string) => unknown;
+  /** Send cookies with cross-origin requests */
+  withCredentials?: boolean;
+  /** Whether to connect (a null url also disconnects) */
+  enabled?: boolean;
+  /**
+   * Backoff between reconnections after the connection drops, false to stay closed
+   * @default reconnects forever, waiting 1s, 2s, 4s... up to 30s
+   */
+  reconnect?: RetryPolicy | false;
+  /**
+   * Query parameter carrying the id of the last received event when the hook opens a new
+   * EventSource (after the browser gave up reconnecting, or on `reconnect()`), for servers
+   * reading it: browsers only send the Last-Event-ID header on their own reconnections.
+   * False to leave the URL untouched.
+   * @default false
+   */
+  lastEventIdParam?: string | false;
+  /**
+   * Disconnect while the page is hidden and reconnect when it becomes visible
+   * @default true
+   */
+  pauseWhenHidden?: boolean;
+  /** Called when the connection opens */
+  onOpen?: () => void;
+  /** Called with each received event */
+  onMessage?: (message: EventSourceMessage<TEvents>) => void;
+  /** Called when the connection drops */
+  onError?: (error: Error) => void;
+};
+
+/**
+ * Event source result interface
+ */
+export type UseEventSourceResult<TEvents extends Record<string, unknown>> = {
+  /** Connection state */
+  status: ConnectionStatus;
+  /** Last received event */
+  lastEvent: EventSourceMessage<TEvents> | undefined;
+  /** Data of the last received event of each name */
+  data: Partial<TEvents>;
+  /** Error that dropped the connection last */
+  error: Error | undefined;
+  /** Reconnection attempts since the connection last opened */
+  retryCount: number;
+  /** Id of the last received event, sent on reconnection */
+  lastEventId: string | undefined;
+  /** Disconnect and stop reconnecting */
+  close: () => void;
+  /** Connect again now (resuming from the last event with `lastEventIdParam`) */
+  reconnect: () => void;
+};
+
+type ConnectionHandlers = {
+  getUrl: () => string;
+  withCredentials: boolean;
+  events: string[];
+  reconnect: RetryPolicy | false;
+  onStatus: (status: ConnectionStatus, retryCount: number) => void;
+  onOpen: () => void;
+  onEvent: (event: MessageEvent<string>) => void;
+  onError: (error: Error) => void;
+};
+
+const DEFAULT_EVENTS = ['message'];
+
+function parseEventData(data: string): unknown {
+  try {
+    return JSON.parse(data) as unknown;
+  } catch {
+    return data;
+  }
+}
+
+function withLastEventId(url: string, parameter: string | false, lastEventId?: string): string {
+  if (parameter === false || !lastEventId) {
+    return url;
+  }
+  const separator = url.includes('?') ? '&' : '?';
+  return `${url}${separator}${encodeURIComponent(parameter)}=${encodeURIComponent(lastEventId)}`;
+}
+
+/**
+ * Open an EventSource and reopen it with backoff whenever it drops
+ *
+ * @returns Function closing the connection and cancelling pending reconnections
+ */
+function connectEventSource(handlers: ConnectionHandlers): () => void {
+  let source: EventSource | undefined;
+  let timerId: ReturnType<typeof setTimeout> | undefined;
+  let attempt = 0;
+  let connectedAt = Date.now();
+
+  const handleError = (): void => {
+    const error = new Error('EventSource connection failed');
+    handlers.onError(error);
+
+    attempt += 1;
+    const delay = getReconnectDelay(handlers.reconnect, attempt, error, Date.now() - connectedAt);
+    if (delay === undefined) {
+      source?.close();
+      handlers.onStatus('closed', attempt - 1);
+      return;
+    }
+    handlers.onStatus('reconnecting', attempt);
+    // While CONNECTING the browser reconnects by itself, sending the Last-Event-ID header;
+    // once it gave up (e.g. after an HTTP error response) a new EventSource is opened
+    if (source?.readyState === EventSource.CLOSED) {
+      timerId = setTimeout(connect, delay);
+    }
+  };
+
+  function connect(): void {
+    source = new EventSource(handlers.getUrl(), { withCredentials: handlers.withCredentials });
+    source.addEventListener('open', () => {
+      attempt = 0;
+      connectedAt = Date.now();
+      handlers.onStatus('open', 0);
+      handlers.onOpen();
+    });
+    source.addEventListener('error', handleError);
+    for (const type of handlers.events) {
+      source.addEventListener(type, handlers.onEvent as EventListener);
+    }
+  }
+
+  handlers.onStatus('connecting', 0);
+  connect();
+
+  return () => {
+    clearTimeout(timerId);
+    source?.close();
+  };
+}
+
+/**
+ * Hook that subscribes to a Server-Sent Events stream
+ *
+ * Event data is parsed as JSON (falling back to the raw string) and exposed per event name.
+ * When the connection drops the browser reconnects, resuming after the last received event
+ * through the Last-Event-ID header; the `reconnect` policy limits these attempts, and when
+ * the browser gives up the hook reopens the connection with exponential backoff. While the
+ * page is hidden the connection is paused.
+ *
+ * @template TEvents - Data type of each event name
+ * @param url - Stream URL, or null to stay disconnected
+ * @param options - Event source options
+ * @returns Event source result object
+ *
+ * @example
+ * ```tsx
+ * type FeedEvents = { message: Tick; alert: { level: string; text: string } };
+ *
+ * const { status, data, lastEvent } = useEventSource<FeedEvents>('/api/feed', {
+ *   events: ['message', 'alert'],
+ *   onMessage: (event) => {
+ *     if (event.type === 'alert') showToast(event.data.text);
+ *   },
+ * });
+ *
+ * return <Ticker tick={data.message} offline={status !== 'open'} />;
+ * ```
+ */
+// eslint-disable-next-line max-lines-per-function, max-statements -- Hook maps the connection lifecycle into React state.
+export function useEventSource<TEvents extends Record<string, unknown> = { message: unknown }>(
+  url: string | null,
+  options: UseEventSourceOptions<TEvents> = {}
+): UseEventSourceResult<TEvents> {
+  const {
+    events = DEFAULT_EVENTS as Array<keyof TEvents & string>,
+    withCredentials = false,
+    enabled = true,
+    reconnect: reconnectPolicy = DEFAULT_RECONNECT_POLICY,
+    lastEventIdParam = false,
+    pauseWhenHidden = true,
+  } = options;
+
+  const [status, setStatus] = useState<ConnectionStatus>('closed');
+  const [lastEvent, setLastEvent] = useState<EventSourceMessage<TEvents>>();
+  const [data, setData] = useState<Partial<TEvents>>({});
+  const [error, setError] = useState<Error>();
+  const [retryCount, setRetryCount] = useState(0);
+  const [lastEventId, setLastEventId] = useState<string>();
+  const [isClosed, setIsClosed] = useState(false);
+  const [connectionId, setConnectionId] = useState(0);
+
+  const lastEventIdReference = useRef<string>();
+  const latestOptions = useLatest(options);
+  const latestReconnect = useLatest(reconnectPolicy);
+  const isVisible = useVisibility();
+  const isPaused = pauseWhenHidden && !isVisible;
+  const eventsKey = events.join(',');
+
+  const handleEvent = useCallback(
+    (event: MessageEvent<string>): void => {
+      const type = event.type as keyof TEvents & string;
+      if (event.lastEventId) {
+        lastEventIdReference.current = event.lastEventId;
+        setLastEventId(event.lastEventId);
+      }
+
+      const parse = latestOptions.current.parse ?? parseEventData;
+      const message = {
+        type,
+        data: parse(event.data, type),
+        lastEventId: event.lastEventId,
+      } as EventSourceMessage<TEvents>;
+      setLastEvent(message);
+      setData((previous) => ({ ...previous, [type]: message.data }));
+      latestOptions.current.onMessage?.(message);
+    },
+    [latestOptions]
+  );
+
+  // Event ids belong to the stream they came from, so a new url resumes from its start
+  useEffect(() => {
+    lastEventIdReference.current = undefined;
+    setLastEventId(undefined);
+  }, [url]);
+
+  useEffect(() => {
+    if (url === null || !enabled || isClosed) {
+      setStatus('closed');
+      return;
+    }
+    if (isPaused) {
+      setStatus('paused');
+      return;
+    }
+    if (typeof EventSource === 'undefined') {
+      logHookWarning('useEventSource', 'EventSource is not supported', { url });
+      setStatus('closed');
+      return;
+    }
+
+    return connectEventSource({
+      getUrl: () => withLastEventId(url, lastEventIdParam, lastEventIdReference.current),
+      withCredentials,
+      events: eventsKey.split(','),
+      reconnect: latestReconnect.current,
+      onStatus: (nextStatus, nextRetryCount) => {
+        setStatus(nextStatus);
+        setRetryCount(nextRetryCount);
+      },
+      onOpen: () => {
+        setError(undefined);
+        latestOptions.current.onOpen?.();
+      },
+      onEvent: handleEvent,
+      onError: (connectionError) => {
+        setError(connectionError);
+        latestOptions.current.onError?.(connectionError);
+      },
+    });
+  }, [
+    url,
+    enabled,
+    isClosed,
+    isPaused,
+    connectionId,
+    withCredentials,
+    eventsKey,
+    lastEventIdParam,
+    handleEvent,
+    latestOptions,
+    latestReconnect,
+  ]);
+
+  const close = useCallback((): void => {
+    setIsClosed(true);
+  }, []);
+
+  const reconnect = useCallback((): void => {
+    setIsClosed(false);
+    setConnectionId((id) => id + 1);
+  }, []);
+
+  return { status, lastEvent, data, error, retryCount, lastEventId, close, reconnect };
+}
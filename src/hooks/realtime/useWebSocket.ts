@@ -0,0 +1,498 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+import { logHookError, logHookWarning } from '../../utils/errorLogging.js';
+import type { RetryPolicy } from '../async/retry/types.js';
+import { useLatest } from '../state/useLatest.js';
+import { DEFAULT_RECONNECT_POLICY, getReconnectDelay } from './reconnect.js';
+import type { ConnectionStatus } from './types.js';
+
+/**
+ * Data a WebSocket can send
+ */
+export type WebSocketData = string | ArrayBufferLike | Blob | ArrayBufferView;
+
+/**
+ * `type` field values of a message union, used by `subscribe`
+ */
+export type WebSocketMessageType<TMessage> = TMessage extends { type: infer TType extends string }
+  ? TType
+  : string;
+
+/**
+ * Keep-alive pings detecting connections that died silently
+ */
+export type WebSocketHeartbeat = {
+  /**
+   * Ping sent to the server
+   * @default 'ping'
+   */
+  message?: WebSocketData;
+  /**
+   * Milliseconds between pings
+   * @default 30000
+   */
+  interval?: number;
+  /**
+   * Milliseconds to wait for any message after a ping before the connection is closed
+   * and reopened
+   * @default 10000
+   */
+  timeout?: number;
+  /**
+   * Raw reply to pings, which is not delivered as a message
+   * @default 'pong'
+   */
+  response?: string;
+};
+
+/**
+ * Options for useWebSocket hook
+ */
+export type UseWebSocketOptions<TIncoming, TOutgoing> = {
+  /** Subprotocols requested from the server */
+  protocols?: string | string[];
+  /**
+   * Parse the data of a received message
+   * @default JSON for text frames (falling back to the raw string), binary data as is
+   */
+  parse?: (data: unknown) => TIncoming;
+  /**
+   * Serialize a message before sending it
+   * @default strings and binary data as is, JSON for everything else
+   */
+  serialize?: (message: TOutgoing) => WebSocketData;
+  /**
+   * Type of a message for `subscribe`
+   * @default the message's `type` field
+   */
+  getType?: (message: TIncoming) => string | undefined;
+  /** Send pings and reconnect when the server stops answering */
+  heartbeat?: WebSocketHeartbeat | boolean;
+  /**
+   * Backoff between reconnections after the connection drops, false to stay closed
+   * @default reconnects forever, waiting 1s, 2s, 4s... up to 30s
+   */
+  reconnect?: RetryPolicy | false;
+  /**
+   * Also reconnect when the server closes the connection normally (code 1000)
+   * @default false
+   */
+  reconnectOnNormalClose?: boolean;
+  /**
+   * Messages kept while the connection is not open; the oldest are dropped beyond it
+   * @default 100
+   */
+  maxQueueSize?: number;
+  /** Whether to connect (a null url also disconnects) */
+  enabled?: boolean;
+  /** Called when the connection opens */
+  onOpen?: (event: Event) => void;
+  /** Called with each received message */
+  onMessage?: (message: TIncoming) => void;
+  /** Called when the connection closes */
+  onClose?: (event: CloseEvent) => void;
+  /** Called when the connection fails */
+  onError?: (error: Error) => void;
+};
+
+/**
+ * WebSocket result interface
+ */
+export type UseWebSocketResult<TIncoming, TOutgoing> = {
+  /** Connection state */
+  readyState: ConnectionStatus;
+  /** Last received message */
+  lastMessage: TIncoming | undefined;
+  /** Error that dropped the connection last */
+  error: Error | undefined;
+  /** Reconnection attempts since the connection last opened */
+  retryCount: number;
+  /**
+   * Send a message, queued until the connection is open; `close` and url changes clear the
+   * queue
+   */
+  send: (message: TOutgoing) => void;
+  /** Call a handler with each received message of a type, returns an unsubscribe function */
+  subscribe: <TType extends WebSocketMessageType<TIncoming>>(
+    type: TType,
+    handler: (message: Extract<TIncoming, { type: TType }>) => void
+  ) => () => void;
+  /** Close the connection and stop reconnecting */
+  close: () => void;
+  /** Connect again now */
+  reconnect: () => void;
+};
+
+type ResolvedHeartbeat = Required<WebSocketHeartbeat>;
+
+type ConnectionConfig = {
+  url: string;
+  protocols: string | string[] | undefined;
+  heartbeat: ResolvedHeartbeat | undefined;
+  reconnect: RetryPolicy | false;
+  reconnectOnNormalClose: boolean;
+  onStatus: (status: ConnectionStatus, retryCount: number) => void;
+  onOpen: (event: Event) => void;
+  onMessage: (event: MessageEvent) => void;
+  onClose: (event: CloseEvent) => void;
+  onError: (error: Error) => void;
+};
+
+type SocketConnection = {
+  /** Send data if the socket is open, returns whether it was sent */
+  send: (data: WebSocketData) => boolean;
+  /** Close the socket and cancel pending reconnections */
+  close: () => void;
+};
+
+const NORMAL_CLOSURE_CODE = 1000;
+const HEARTBEAT_TIMEOUT_CODE = 4000;
+const DEFAULT_MAX_QUEUE_SIZE = 100;
+
+function resolveHeartbeat(
+  heartbeat: WebSocketHeartbeat | boolean | undefined
+): ResolvedHeartbeat | undefined {
+  if (!heartbeat) {
+    return undefined;
+  }
+  const {
+    message = 'ping',
+    interval = 30000,
+    timeout = 10000,
+    response = 'pong',
+  } = heartbeat === true ? {} : heartbeat;
+  return { message, interval, timeout, response };
+}
+
+function parseMessageData(data: unknown): unknown {
+  if (typeof data !== 'string') {
+    return data;
+  }
+  try {
+    return JSON.parse(data) as unknown;
+  } catch {
+    return data;
+  }
+}
+
+function serializeMessage(message: unknown): WebSocketData {
+  if (
+    typeof message === 'string' ||
+    message instanceof ArrayBuffer ||
+    ArrayBuffer.isView(message) ||
+    (typeof Blob !== 'undefined' && message instanceof Blob)
+  ) {
+    return message;
+  }
+  return JSON.stringify(message);
+}
+
+function getMessageType(message: unknown): string | undefined {
+  const type = (message as { type?: unknown } | null)?.type;
+  return typeof type === 'string' ? type : undefined;
+}
+
+/**
+ * Ping an open socket, closing it when no message follows a ping in time
+ *
+ * @returns Heartbeat controls: `alive` on each message, `stop` when the socket closes
+ */
+function startHeartbeat(
+  socket: WebSocket,
+  heartbeat: ResolvedHeartbeat
+): { alive: () => void; stop: () => void } {
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+  const intervalId = setInterval(() => {
+    socket.send(heartbeat.message);
+    if (timeoutId === undefined) {
+      timeoutId = setTimeout(() => {
+        socket.close(HEARTBEAT_TIMEOUT_CODE, 'Heartbeat timeout');
+      }, heartbeat.timeout);
+    }
+  }, heartbeat.interval);
+
+  const alive = (): void => {
+    clearTimeout(timeoutId);
+    timeoutId = undefined;
+  };
+  return {
+    alive,
+    stop: () => {
+      clearInterval(intervalId);
+      alive();
+    },
+  };
+}
+
+/**
+ * Open a socket, running the heartbeat while it is open
+ */
+function openSocket(
+  config: ConnectionConfig,
+  onOpened: () => void,
+  onClosed: (event: CloseEvent) => void
+): WebSocket {
+  const socket = new WebSocket(config.url, config.protocols);
+  let heartbeat: ReturnType<typeof startHeartbeat> | undefined;
+
+  socket.addEventListener('open', (event) => {
+    heartbeat = config.heartbeat && startHeartbeat(socket, config.heartbeat);
+    onOpened();
+    config.onOpen(event);
+  });
+  socket.addEventListener('message', (event) => {
+    heartbeat?.alive();
+    if (event.data !== config.heartbeat?.response) {
+      config.onMessage(event);
+    }
+  });
+  socket.addEventListener('error', () => {
+    config.onError(new Error(`WebSocket connection to ${config.url} failed`));
+  });
+  socket.addEventListener('close', (event) => {
+    heartbeat?.stop();
+    config.onClose(event);
+    onClosed(event);
+  });
+  return socket;
+}
+
+/**
+ * Open a WebSocket and reopen it with backoff whenever it closes unexpectedly
+ *
+ * A normal closure by the server ends the connection unless `reconnectOnNormalClose` is set.
+ */
+function connectWebSocket(config: ConnectionConfig): SocketConnection {
+  let socket: WebSocket | undefined;
+  let timerId: ReturnType<typeof setTimeout> | undefined;
+  let attempt = 0;
+  let connectedAt = Date.now();
+  let isClosed = false;
+
+  const handleOpened = (): void => {
+    attempt = 0;
+    connectedAt = Date.now();
+    config.onStatus('open', 0);
+  };
+
+  const handleClosed = (event: CloseEvent): void => {
+    if (isClosed) {
+      return;
+    }
+    if (event.code === NORMAL_CLOSURE_CODE && !config.reconnectOnNormalClose) {
+      config.onStatus('closed', attempt);
+      return;
+    }
+    const error = new Error(`WebSocket closed with code ${event.code}`);
+    attempt += 1;
+    const delay = getReconnectDelay(config.reconnect, attempt, error, Date.now() - connectedAt);
+    if (delay === undefined) {
+      config.onStatus('closed', attempt - 1);
+      return;
+    }
+    config.onStatus('reconnecting', attempt);
+    timerId = setTimeout(connect, delay);
+  };
+
+  function connect(): void {
+    socket = openSocket(config, handleOpened, handleClosed);
+  }
+
+  config.onStatus('connecting', 0);
+  connect();
+
+  return {
+    send(data) {
+      if (socket?.readyState !== WebSocket.OPEN) {
+        return false;
+      }
+      socket.send(data);
+      return true;
+    },
+    close() {
+      isClosed = true;
+      clearTimeout(timerId);
+      socket?.close();
+    },
+  };
+}
+
+/**
+ * Hook that manages a WebSocket connection
+ *
+ * Messages are parsed (JSON by default) into `lastMessage` and dispatched to the
+ * `subscribe` handlers of their `type`. Messages sent before the connection opens are
+ * queued, up to `maxQueueSize`. When the connection drops it is reopened with exponential
+ * backoff, and the optional heartbeat reopens connections that stop answering; a normal
+ * closure by the server (code 1000) is final unless `reconnectOnNormalClose` is set.
+ *
+ * @template TIncoming - Type of received messages
+ * @template TOutgoing - Type of sent messages
+ * @param url - Socket URL, or null to stay disconnected
+ * @param options - WebSocket options
+ * @returns WebSocket result object
+ *
+ * @example
+ * ```tsx
+ * type ServerMessage = { type: 'chat'; text: string } | { type: 'presence'; users: string[] };
+ * type ClientMessage = { type: 'chat'; text: string };
+ *
+ * const { readyState, send, subscribe } = useWebSocket<ServerMessage, ClientMessage>(
+ *   'wss://chat.example.com',
+ *   { heartbeat: { interval: 15000 } }
+ * );
+ *
+ * useEffect(() => subscribe('chat', (message) => append(message.text)), [subscribe]);
+ *
+ * <button onClick={() => send({ type: 'chat', text })}>Send</button>;
+ * ```
+ */
+// eslint-disable-next-line max-lines-per-function, max-statements -- Hook maps the connection lifecycle into React state.
+export function useWebSocket<TIncoming = unknown, TOutgoing = unknown>(
+  url: string | null,
+  options: UseWebSocketOptions<TIncoming, TOutgoing> = {}
+): UseWebSocketResult<TIncoming, TOutgoing> {
+  const {
+    protocols,
+    heartbeat,
+    reconnect: reconnectPolicy,
+    reconnectOnNormalClose = false,
+    enabled = true,
+  } = options;
+
+  const [readyState, setReadyState] = useState<ConnectionStatus>('closed');
+  const [lastMessage, setLastMessage] = useState<TIncoming>();
+  const [error, setError] = useState<Error>();
+  const [retryCount, setRetryCount] = useState(0);
+  const [isClosed, setIsClosed] = useState(false);
+  const [connectionId, setConnectionId] = useState(0);
+
+  const connection = useRef<SocketConnection>();
+  const queue = useRef<WebSocketData[]>([]);
+  const subscribers = useRef(new Map<string, Set<(message: never) => void>>());
+  const latestOptions = useLatest(options);
+  const latestConnection = useLatest({
+    protocols,
+    heartbeat: resolveHeartbeat(heartbeat),
+    reconnect: reconnectPolicy ?? DEFAULT_RECONNECT_POLICY,
+    reconnectOnNormalClose,
+  });
+  // Reconnect when the protocols change or the heartbeat is switched on or off
+  const protocolsKey = [protocols ?? []].flat().join(',');
+  const hasHeartbeat = Boolean(heartbeat);
+
+  const handleMessage = useCallback(
+    (event: MessageEvent): void => {
+      const { parse, getType = getMessageType, onMessage } = latestOptions.current;
+      const message = (parse ?? parseMessageData)(event.data) as TIncoming;
+      setLastMessage(message);
+      onMessage?.(message);
+
+      const type = getType(message);
+      for (const handler of Array.from(subscribers.current.get(type ?? '') ?? [])) {
+        (handler as (message: TIncoming) => void)(message);
+      }
+    },
+    [latestOptions]
+  );
+
+  // Messages queued for one server are not meant for another
+  useEffect(() => {
+    queue.current = [];
+  }, [url]);
+
+  useEffect(() => {
+    if (url === null || !enabled || isClosed) {
+      setReadyState('closed');
+      return;
+    }
+    if (typeof WebSocket === 'undefined') {
+      logHookWarning('useWebSocket', 'WebSocket is not supported', { url });
+      setReadyState('closed');
+      return;
+    }
+
+    const current = connectWebSocket({
+      url,
+      ...latestConnection.current,
+      onStatus: (status, nextRetryCount) => {
+        setReadyState(status);
+        setRetryCount(nextRetryCount);
+      },
+      onOpen: (event) => {
+        setError(undefined);
+        // Flush the messages sent while connecting
+        const pending = queue.current.splice(0);
+        for (const data of pending) {
+          current.send(data);
+        }
+        latestOptions.current.onOpen?.(event);
+      },
+      onMessage: handleMessage,
+      onClose: (event) => latestOptions.current.onClose?.(event),
+      onError: (connectionError) => {
+        setError(connectionError);
+        logHookError('useWebSocket', 'WebSocket error', connectionError, { url });
+        latestOptions.current.onError?.(connectionError);
+      },
+    });
+    connection.current = current;
+
+    return () => {
+      current.close();
+      connection.current = undefined;
+    };
+  }, [
+    url,
+    enabled,
+    isClosed,
+    connectionId,
+    protocolsKey,
+    hasHeartbeat,
+    handleMessage,
+    latestOptions,
+    latestConnection,
+  ]);
+
+  const send = useCallback(
+    (message: TOutgoing): void => {
+      const { serialize = serializeMessage, maxQueueSize = DEFAULT_MAX_QUEUE_SIZE } =
+        latestOptions.current;
+      const data = serialize(message);
+      if (!connection.current?.send(data)) {
+        queue.current.push(data);
+        if (queue.current.length > maxQueueSize) {
+          queue.current.splice(0, queue.current.length - maxQueueSize);
+        }
+      }
+    },
+    [latestOptions]
+  );
+
+  const subscribe = useCallback(
+    <TType extends WebSocketMessageType<TIncoming>>(
+      type: TType,
+      handler: (message: Extract<TIncoming, { type: TType }>) => void
+    ): (() => void) => {
+      const handlers = subscribers.current.get(type) ?? new Set();
+      handlers.add(handler);
+      subscribers.current.set(type, handlers);
+      return () => {
+        handlers.delete(handler);
+      };
+    },
+    []
+  );
+
+  const close = useCallback((): void => {
+    queue.current = [];
+    setIsClosed(true);
+  }, []);
+
+  const reconnect = useCallback((): void => {
+    setIsClosed(false);
+    setConnectionId((id) => id + 1);
+  }, []);
+
+  return { readyState, lastMessage, error, retryCount, send, subscribe, close, reconnect };
+}
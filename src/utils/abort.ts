@@ -0,0 +1,76 @@
+/**
+ * AbortSignal helpers shared by the async hooks
+ */
+
+/**
+ * Get the error an aborted signal rejects with
+ *
+ * @param signal - The aborted signal
+ * @returns The abort reason as an Error
+ */
+export function getAbortError(signal: AbortSignal): Error {
+  const reason: unknown = signal.reason;
+  if (reason instanceof Error) {
+    return reason;
+  }
+
+  const error = new Error(reason === undefined ? 'The operation was aborted' : String(reason));
+  error.name = 'AbortError';
+  return error;
+}
+
+/**
+ * Race a promise against an abort signal
+ *
+ * The returned promise rejects as soon as the signal aborts, even if the
+ * underlying work ignores the signal.
+ *
+ * @param promise - Promise to race
+ * @param signal - Signal that cancels the wait
+ * @returns Promise settling with the original promise unless aborted first
+ */
+export function abortable<T>(promise: Promise<T>, signal: AbortSignal | undefined): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+  if (signal.aborted) {
+    return Promise.reject(getAbortError(signal));
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const handleAbort = (): void => reject(getAbortError(signal));
+    signal.addEventListener('abort', handleAbort, { once: true });
+
+    promise.then(
+      (value) => {
+        signal.removeEventListener('abort', handleAbort);
+        resolve(value);
+      },
+      (error: unknown) => {
+        signal.removeEventListener('abort', handleAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * Wait for a delay, rejecting early if the signal aborts
+ *
+ * @param ms - Delay in milliseconds
+ * @param signal - Optional signal that cancels the wait
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return abortable(
+    new Promise<void>((resolve) => {
+      let timerId: ReturnType<typeof setTimeout> | undefined;
+      const handleAbort = (): void => clearTimeout(timerId);
+      timerId = setTimeout(() => {
+        signal?.removeEventListener('abort', handleAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener('abort', handleAbort, { once: true });
+    }),
+    signal
+  );
+}
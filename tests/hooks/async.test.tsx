@@ -1,6 +1,107 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { renderHook, waitFor } from '@testing-library/react';
-import { useAsync, useInterval, useTimeout } from '../../src/hooks/async/index.js';
+import { Component, type ReactNode, StrictMode, Suspense } from 'react';
+import { act, render, renderHook, screen, waitFor } from '@testing-library/react';
+import {
+  createFetcher,
+  createLruRequestCache,
+  createMutationQueue,
+  createMemoryRequestCache,
+  createStorageRequestCache,
+  type DehydratedRequestCache,
+  dehydrateRequestCache,
+  hydrateRequestCache,
+  HttpError,
+  invalidateCache,
+  invalidateTags,
+  isRetryableError,
+  mutateCache,
+  onRequestEvent,
+  prefetchRequest,
+  RequestCacheInspector,
+  RequestCacheProvider,
+  RequestHydrationBoundary,
+  resetSuspenseRequest,
+  type RequestCache,
+  type RequestContext,
+  type RequestEvent,
+  TimeoutError,
+  type TimerScheduler,
+  useAsync,
+  useAsyncFunction,
+  useAsyncRetry,
+  useInfiniteRequest,
+  useInterval,
+  useMutation,
+  useMutationQueue,
+  usePaginatedRequest,
+  useRequest,
+  useRequests,
+  useStreamingRequest,
+  useSuspenseRequest,
+  useTimeout,
+} from '../../src/hooks/async/index.js';
+
+function createCacheWrapper(cache: RequestCache) {
+  return ({ children }: { children: ReactNode }) => (
+    <RequestCacheProvider cache={cache}>{children}</RequestCacheProvider>
+  );
+}
+
+const wait = (ms: number): Promise<void> =>
+  new Promise((resolve) => {
+    setTimeout(resolve, ms);
+  });
+
+// Renders and effects are flushed between steps so scheduled polls can fire
+const advance = async (ms: number): Promise<void> => {
+  for (let elapsed = 0; elapsed < ms; elapsed += 10) {
+    await act(() => wait(10));
+  }
+};
+
+// Scheduler whose clock only moves when advanced; each task runs `lag` ms after it is due
+function createManualScheduler(lag = 0) {
+  let time = 0;
+  let tasks: Array<{ at: number; callback: () => void }> = [];
+
+  const scheduler: TimerScheduler = {
+    now: () => time,
+    schedule: (callback, delay) => {
+      const task = { at: time + delay, callback };
+      tasks.push(task);
+      return () => {
+        tasks = tasks.filter((item) => item !== task);
+      };
+    },
+  };
+
+  const advanceTo = (target: number): void => {
+    act(() => {
+      let task = tasks.find((item) => item.at <= target);
+      while (task) {
+        tasks = tasks.filter((item) => item !== task);
+        time = Math.max(time, task.at + lag);
+        task.callback();
+        task = tasks.find((item) => item.at <= target);
+      }
+      time = Math.max(time, target);
+    });
+  };
+
+  return { scheduler, advanceTo, setLag: (value: number) => (lag = value) };
+}
+
+class TestErrorBoundary extends Component<{ children: ReactNode }, { error?: Error }> {
+  override state: { error?: Error } = {};
+
+  static getDerivedStateFromError(error: Error) {
+    return { error };
+  }
+
+  override render() {
+    return this.state.error ? <p>Error: {this.state.error.message}</p> : this.props.children;
+  }
+}
 
 describe('async hooks', () => {
   beforeEach(() => {
@@ -43,9 +144,127 @@ describe('async hooks', () => {
         expect(result.current.loading).toBe(false);
       });
 
+      expect(result.current.status).toBe('error');
       expect(result.current.error).toBe(error);
       expect(result.current.value).toBeNull();
     });
+
+    it('should move through pending and success statuses', async () => {
+      const { result, rerender } = renderHook(
+        ({ id }) => useAsync(() => wait(5).then(() => id), [id]),
+        {
+          initialProps: { id: 1 },
+        }
+      );
+      expect(result.current.status).toBe('pending');
+
+      await waitFor(() => {
+        expect(result.current.status).toBe('success');
+      });
+      expect(result.current.value).toBe(1);
+
+      rerender({ id: 2 });
+      expect(result.current.status).toBe('pending');
+      expect(result.current.value).toBeNull();
+    });
+
+    it('should keep the previous value while reloading with keepPreviousData', async () => {
+      const { result, rerender } = renderHook(
+        ({ id }) =>
+          useAsync(
+            () => wait(5).then(() => (id === 3 ? Promise.reject(new Error('Gone')) : id)),
+            [id],
+            { keepPreviousData: true }
+          ),
+        { initialProps: { id: 1 } }
+      );
+      await waitFor(() => {
+        expect(result.current.value).toBe(1);
+      });
+
+      rerender({ id: 2 });
+      expect(result.current.status).toBe('pending');
+      expect(result.current.value).toBe(1);
+      await waitFor(() => {
+        expect(result.current.value).toBe(2);
+      });
+
+      rerender({ id: 3 });
+      await waitFor(() => {
+        expect(result.current.status).toBe('error');
+      });
+      expect(result.current.value).toBe(2);
+    });
+
+    it('should stay idle until enabled', async () => {
+      const asyncFn = vi.fn().mockResolvedValue('result');
+      const { result, rerender } = renderHook(({ enabled }) => useAsync(asyncFn, [], { enabled }), {
+        initialProps: { enabled: false },
+      });
+      expect(result.current.status).toBe('idle');
+      expect(result.current.loading).toBe(false);
+      expect(asyncFn).not.toHaveBeenCalled();
+
+      rerender({ enabled: true });
+      await waitFor(() => {
+        expect(result.current.status).toBe('success');
+      });
+      expect(asyncFn).toHaveBeenCalledTimes(1);
+
+      rerender({ enabled: false });
+      expect(result.current.status).toBe('success');
+      expect(result.current.value).toBe('result');
+    });
+
+    it('should abort the signal of a superseded run', async () => {
+      const signals: AbortSignal[] = [];
+      const onSettled = vi.fn();
+      const { result, rerender, unmount } = renderHook(
+        ({ id }) =>
+          useAsync(
+            (signal) => {
+              signals.push(signal);
+              return wait(5).then(() => id);
+            },
+            [id],
+            { onSettled }
+          ),
+        { initialProps: { id: 1 } }
+      );
+
+      rerender({ id: 2 });
+      expect(signals[0]!.aborted).toBe(true);
+      await waitFor(() => {
+        expect(result.current.value).toBe(2);
+      });
+      expect(onSettled).toHaveBeenCalledTimes(1);
+      expect(onSettled).toHaveBeenCalledWith(2, null);
+
+      unmount();
+      expect(signals[1]!.aborted).toBe(true);
+    });
+
+    it('should run again on reload', async () => {
+      const asyncFn = vi
+        .fn()
+        .mockResolvedValueOnce('first')
+        .mockRejectedValueOnce(new Error('Down'));
+      const onSettled = vi.fn();
+      const { result } = renderHook(() => useAsync(asyncFn, [], { onSettled }));
+      await waitFor(() => {
+        expect(result.current.value).toBe('first');
+      });
+
+      act(() => {
+        result.current.reload();
+      });
+      expect(result.current.status).toBe('pending');
+      await waitFor(() => {
+        expect(result.current.status).toBe('error');
+      });
+      expect(asyncFn).toHaveBeenCalledTimes(2);
+      expect(onSettled).toHaveBeenLastCalledWith(null, new Error('Down'));
+    });
   });
 
   describe('useInterval', () => {
@@ -69,9 +288,86 @@ describe('async hooks', () => {
       vi.advanceTimersByTime(10000);
       expect(callback).not.toHaveBeenCalled();
     });
+
+    it('should schedule ticks from when they were due so late ticks do not drift', () => {
+      const { scheduler, advanceTo } = createManualScheduler(30);
+      const callback = vi.fn();
+      renderHook(() => useInterval(callback, 100, { scheduler }));
+
+      advanceTo(1000);
+      // Without correction every tick would be 30ms later than the previous one
+      expect(callback).toHaveBeenCalledTimes(10);
+    });
+
+    it('should skip ticks missed while throttled', () => {
+      const { scheduler, advanceTo, setLag } = createManualScheduler(250);
+      const callback = vi.fn();
+      const { result } = renderHook(() => useInterval(callback, 100, { scheduler }));
+
+      advanceTo(100);
+      setLag(0);
+      expect(callback).toHaveBeenCalledTimes(1);
+      expect(result.current.remaining()).toBe(50);
+    });
+
+    it('should call the callback when starting with immediate', () => {
+      const { scheduler } = createManualScheduler();
+      const callback = vi.fn();
+      renderHook(() => useInterval(callback, 100, { immediate: true, scheduler }));
+
+      expect(callback).toHaveBeenCalledTimes(1);
+    });
   });
 
   describe('useTimeout', () => {
+    it('should pause and resume with the time left', () => {
+      const { scheduler, advanceTo } = createManualScheduler();
+      const callback = vi.fn();
+      const { result } = renderHook(() => useTimeout(callback, 1000, { scheduler }));
+
+      advanceTo(400);
+      expect(result.current.remaining()).toBe(600);
+      act(() => {
+        result.current.pause();
+      });
+      expect(result.current.paused).toBe(true);
+
+      advanceTo(2000);
+      expect(callback).not.toHaveBeenCalled();
+      expect(result.current.remaining()).toBe(600);
+
+      act(() => {
+        result.current.resume();
+      });
+      advanceTo(2599);
+      expect(callback).not.toHaveBeenCalled();
+      advanceTo(2600);
+      expect(callback).toHaveBeenCalledTimes(1);
+      expect(result.current.remaining()).toBe(0);
+    });
+
+    it('should re-arm after firing on reset', () => {
+      const { scheduler, advanceTo } = createManualScheduler();
+      const callback = vi.fn();
+      const { result } = renderHook(() => useTimeout(callback, 1000, { scheduler }));
+
+      advanceTo(500);
+      act(() => {
+        result.current.reset();
+      });
+      advanceTo(1000);
+      expect(callback).not.toHaveBeenCalled();
+      advanceTo(1500);
+      expect(callback).toHaveBeenCalledTimes(1);
+
+      act(() => {
+        result.current.reset();
+      });
+      expect(result.current.remaining()).toBe(1000);
+      advanceTo(2500);
+      expect(callback).toHaveBeenCalledTimes(2);
+    });
+
     it('should call callback after delay', () => {
       const callback = vi.fn();
       renderHook(() => useTimeout(callback, 1000));
@@ -93,4 +389,2259 @@ describe('async hooks', () => {
       expect(callback).not.toHaveBeenCalled();
     });
   });
+
+  describe('request cache', () => {
+    beforeEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should notify subscribers when an entry changes', () => {
+      const cache = createMemoryRequestCache();
+      const listener = vi.fn();
+      const unsubscribe = cache.subscribe('key', listener);
+
+      cache.set('key', { data: 1, timestamp: 0 });
+      cache.delete('key');
+      unsubscribe();
+      cache.set('key', { data: 2, timestamp: 0 });
+
+      expect(listener).toHaveBeenCalledTimes(2);
+      expect(listener).toHaveBeenNthCalledWith(1, { data: 1, timestamp: 0 });
+      expect(listener).toHaveBeenNthCalledWith(2, undefined);
+    });
+
+    it('should evict the least recently used entry', () => {
+      const cache = createLruRequestCache({ maxEntries: 2 });
+      cache.set('a', { data: 'a', timestamp: 0 });
+      cache.set('b', { data: 'b', timestamp: 0 });
+      cache.get('a');
+      cache.set('c', { data: 'c', timestamp: 0 });
+
+      expect(cache.keys()).toEqual(['a', 'c']);
+    });
+
+    it('should persist entries to storage', () => {
+      const cache = createStorageRequestCache({ type: 'sessionStorage', prefix: 'test:' });
+      cache.set('user', { data: { id: 1 }, timestamp: 10 });
+
+      expect(window.sessionStorage.getItem('test:user')).toBe(
+        JSON.stringify({ data: { id: 1 }, timestamp: 10 })
+      );
+      expect(cache.keys()).toEqual(['user']);
+      expect(cache.get('user')).toEqual({ data: { id: 1 }, timestamp: 10 });
+    });
+
+    it('should notify subscribers when removing a storage entry fails', () => {
+      const consoleWarn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+      const removeItem = vi.spyOn(Storage.prototype, 'removeItem').mockImplementation(() => {
+        throw new Error('SecurityError');
+      });
+      const cache = createStorageRequestCache({ type: 'sessionStorage', prefix: 'test:' });
+      const listener = vi.fn();
+      cache.subscribe('user', listener);
+
+      expect(() => {
+        cache.delete('user');
+      }).not.toThrow();
+      expect(listener).toHaveBeenCalledWith(undefined);
+
+      removeItem.mockRestore();
+      consoleWarn.mockRestore();
+    });
+
+    it('should read and write the provided cache', async () => {
+      const cache = createMemoryRequestCache();
+      cache.set('user-["1"]', { data: 'cached', timestamp: Date.now() });
+      const service = vi.fn().mockResolvedValue('fresh');
+
+      const { result } = renderHook(
+        () => useRequest(service, { cacheKey: 'user', defaultParams: ['1'] }),
+        { wrapper: createCacheWrapper(cache) }
+      );
+
+      await waitFor(() => {
+        expect(result.current.data).toBe('cached');
+      });
+      expect(service).not.toHaveBeenCalled();
+    });
+
+    it('should isolate caches between providers', async () => {
+      const service = vi.fn().mockResolvedValue('data');
+      const firstCache = createMemoryRequestCache();
+      const secondCache = createMemoryRequestCache();
+      const options = { cacheKey: 'isolated', defaultParams: [] as [] };
+
+      const first = renderHook(() => useRequest(service, options), {
+        wrapper: createCacheWrapper(firstCache),
+      });
+      await waitFor(() => {
+        expect(first.result.current.data).toBe('data');
+      });
+
+      const second = renderHook(() => useRequest(service, options), {
+        wrapper: createCacheWrapper(secondCache),
+      });
+      await waitFor(() => {
+        expect(second.result.current.data).toBe('data');
+      });
+
+      expect(service).toHaveBeenCalledTimes(2);
+      expect(firstCache.keys()).toEqual(['isolated-[]']);
+      expect(secondCache.keys()).toEqual(['isolated-[]']);
+    });
+
+    it('should hash params independently of key order', async () => {
+      const cache = createMemoryRequestCache();
+      const service = vi.fn().mockResolvedValue('data');
+
+      renderHook(
+        () => {
+          useRequest(service, { cacheKey: 'search', defaultParams: [{ q: 'a', page: 1 }] });
+          useRequest(service, { cacheKey: 'search', defaultParams: [{ page: 1, q: 'a' }] });
+          useRequest(service, {
+            cacheKey: 'range',
+            defaultParams: [new Date(0), new Map([['id', 1n]]), new Set([2, 1]), undefined],
+          });
+        },
+        { wrapper: createCacheWrapper(cache) }
+      );
+
+      await waitFor(() => {
+        expect(cache.keys()).toEqual([
+          'search-[{"page":1,"q":"a"}]',
+          'range-[Date(0),Map{"id":1n},Set[1,2],undefined]',
+        ]);
+      });
+      expect(service).toHaveBeenCalledTimes(2);
+    });
+
+    it('should build the whole key with a function cacheKey', async () => {
+      const cache = createMemoryRequestCache();
+      const service = vi.fn((id: number) => Promise.resolve(`user ${id}`));
+
+      const { result } = renderHook(
+        () => useRequest(service, { cacheKey: (id) => `user:${id}`, defaultParams: [42] }),
+        { wrapper: createCacheWrapper(cache) }
+      );
+      await waitFor(() => {
+        expect(result.current.data).toBe('user 42');
+      });
+      expect(cache.keys()).toEqual(['user:42']);
+
+      act(() => {
+        invalidateCache('user:42', { cache });
+      });
+      await waitFor(() => {
+        expect(service).toHaveBeenCalledTimes(2);
+      });
+    });
+
+    it('should collect entries no mounted hook uses after cacheTime', async () => {
+      const cache = createMemoryRequestCache();
+      const service = vi.fn().mockResolvedValue('data');
+
+      const { result, unmount } = renderHook(
+        () => useRequest(service, { cacheKey: 'gc', defaultParams: [], cacheTime: 20 }),
+        { wrapper: createCacheWrapper(cache) }
+      );
+      await waitFor(() => {
+        expect(result.current.data).toBe('data');
+      });
+
+      await new Promise((resolve) => setTimeout(resolve, 40));
+      expect(cache.get('gc-[]')?.data).toBe('data');
+
+      unmount();
+      await waitFor(() => {
+        expect(cache.keys()).toEqual([]);
+      });
+    });
+
+    it('should refetch mounted consumers of invalidated tags', async () => {
+      const cache = createMemoryRequestCache();
+      const fetchUser = vi.fn((id: number) => Promise.resolve(`user ${id}`));
+      const fetchTeam = vi.fn().mockResolvedValue('team');
+
+      renderHook(
+        () => {
+          useRequest(fetchUser, { cacheKey: 'user', defaultParams: [1], tags: ['user', 'user:1'] });
+          useRequest(fetchUser, { cacheKey: 'user', defaultParams: [2], tags: ['user', 'user:2'] });
+          useRequest(fetchTeam, { cacheKey: 'team', defaultParams: [], tags: ['team'] });
+        },
+        { wrapper: createCacheWrapper(cache) }
+      );
+      await waitFor(() => {
+        expect(cache.keys()).toHaveLength(3);
+      });
+
+      act(() => {
+        invalidateTags('user:1', { cache });
+      });
+
+      await waitFor(() => {
+        expect(fetchUser).toHaveBeenCalledTimes(3);
+      });
+      expect(fetchUser).toHaveBeenLastCalledWith(1);
+      expect(fetchTeam).toHaveBeenCalledTimes(1);
+      expect(cache.get('user-[1]')).toEqual({
+        data: 'user 1',
+        timestamp: expect.any(Number),
+        tags: ['user', 'user:1'],
+      });
+    });
+  });
+
+  describe('useRequest', () => {
+    beforeEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should serve stale data while revalidating', async () => {
+      const cache = createMemoryRequestCache();
+      cache.set('swr-[]', { data: 'stale', timestamp: Date.now() - 2000 });
+      let resolveRequest: (value: string) => void = () => undefined;
+      const service = vi.fn(
+        () =>
+          new Promise<string>((resolve) => {
+            resolveRequest = resolve;
+          })
+      );
+
+      const { result } = renderHook(
+        () => useRequest(service, { cacheKey: 'swr', defaultParams: [], staleTime: 1000 }),
+        { wrapper: createCacheWrapper(cache) }
+      );
+
+      await waitFor(() => {
+        expect(result.current.isValidating).toBe(true);
+      });
+      expect(result.current.data).toBe('stale');
+      expect(result.current.isStale).toBe(true);
+      expect(result.current.loading).toBe(false);
+
+      resolveRequest('fresh');
+
+      await waitFor(() => {
+        expect(result.current.data).toBe('fresh');
+      });
+      expect(result.current.isStale).toBe(false);
+      expect(result.current.isValidating).toBe(false);
+      expect(cache.get('swr-[]')?.data).toBe('fresh');
+    });
+
+    it('should not revalidate data fresher than staleTime', async () => {
+      const cache = createMemoryRequestCache();
+      cache.set('fresh-[]', { data: 'cached', timestamp: Date.now() });
+      const service = vi.fn().mockResolvedValue('network');
+
+      const { result } = renderHook(
+        () => useRequest(service, { cacheKey: 'fresh', defaultParams: [], staleTime: 1000 }),
+        { wrapper: createCacheWrapper(cache) }
+      );
+
+      await waitFor(() => {
+        expect(result.current.data).toBe('cached');
+      });
+      expect(result.current.isStale).toBe(false);
+      expect(service).not.toHaveBeenCalled();
+    });
+
+    it('should not refetch when defaultParams change, only when refreshDeps do', async () => {
+      const fetchUser = vi.fn((id: string) => Promise.resolve(`user ${id}`));
+
+      const { result, rerender } = renderHook(
+        ({ id }) => ({
+          byParams: useRequest(fetchUser, { defaultParams: [id] }),
+          byDeps: useRequest(() => fetchUser(`deps ${id}`), {
+            defaultParams: [],
+            refreshDeps: [id],
+          }),
+        }),
+        { initialProps: { id: '1' } }
+      );
+      await waitFor(() => {
+        expect(result.current.byDeps.data).toBe('user deps 1');
+      });
+
+      rerender({ id: '2' });
+
+      await waitFor(() => {
+        expect(result.current.byDeps.data).toBe('user deps 2');
+      });
+      expect(result.current.byParams.data).toBe('user 1');
+      expect(fetchUser).not.toHaveBeenCalledWith('2');
+    });
+
+    it('should update every consumer of a cache key together', async () => {
+      const cache = createMemoryRequestCache();
+      const service = vi.fn().mockResolvedValue(['a']);
+      const options = { cacheKey: 'shared', defaultParams: [] as [] };
+
+      const { result } = renderHook(
+        () => ({ first: useRequest(service, options), second: useRequest(service, options) }),
+        { wrapper: createCacheWrapper(cache) }
+      );
+
+      await waitFor(() => {
+        expect(result.current.second.data).toEqual(['a']);
+      });
+
+      act(() => {
+        result.current.first.mutate((items = []) => [...items, 'b']);
+      });
+      expect(result.current.second.data).toEqual(['a', 'b']);
+
+      act(() => {
+        mutateCache<string[]>('shared', ['c'], { cache });
+      });
+      expect(result.current.first.data).toEqual(['c']);
+      expect(result.current.second.data).toEqual(['c']);
+    });
+
+    it('should start over instead of joining a request aborted by its caller', async () => {
+      const cache = createMemoryRequestCache();
+      const onError = vi.fn();
+      const service = vi.fn(
+        (context?: RequestContext) =>
+          new Promise<string>((resolve, reject) => {
+            const timerId = setTimeout(() => resolve('data'), 10);
+            context?.signal.addEventListener('abort', () => {
+              clearTimeout(timerId);
+              reject(new DOMException('Aborted', 'AbortError'));
+            });
+          })
+      );
+
+      const { result } = renderHook(
+        () =>
+          useRequest(service, { cacheKey: 'strict', defaultParams: [], withSignal: true, onError }),
+        {
+          wrapper: ({ children }: { children: ReactNode }) => (
+            <StrictMode>
+              <RequestCacheProvider cache={cache}>{children}</RequestCacheProvider>
+            </StrictMode>
+          ),
+        }
+      );
+
+      await waitFor(() => {
+        expect(result.current.data).toBe('data');
+      });
+      expect(result.current.error).toBeUndefined();
+      expect(onError).not.toHaveBeenCalled();
+      expect(service).toHaveBeenCalledTimes(2);
+    });
+
+    it('should let requests joining during a retry backoff share the retried result', async () => {
+      const cache = createMemoryRequestCache();
+      const service = vi.fn().mockRejectedValueOnce(new Error('Flaky')).mockResolvedValue('data');
+      const options = { cacheKey: 'backoff', defaultParams: [], retry: { count: 1, delay: 50 } };
+
+      renderHook(() => useRequest(service, options), { wrapper: createCacheWrapper(cache) });
+      await wait(20);
+      expect(service).toHaveBeenCalledTimes(1);
+
+      const { result } = renderHook(() => useRequest(service, options), {
+        wrapper: createCacheWrapper(cache),
+      });
+      await waitFor(() => {
+        expect(result.current.data).toBe('data');
+      });
+      expect(result.current.error).toBeUndefined();
+      expect(service).toHaveBeenCalledTimes(2);
+    });
+
+    it('should start over when the request it joined is cancelled', async () => {
+      const cache = createMemoryRequestCache();
+      const service = vi.fn(
+        (context?: RequestContext) =>
+          new Promise<string>((resolve, reject) => {
+            setTimeout(() => resolve('data'), 10);
+            context?.signal.addEventListener('abort', () => reject(new Error('aborted')));
+          })
+      );
+
+      const { result } = renderHook(
+        () => ({
+          first: useRequest(service, { cacheKey: 'joined', defaultParams: [], withSignal: true }),
+          second: useRequest(service, { cacheKey: 'joined', defaultParams: [], withSignal: true }),
+        }),
+        { wrapper: createCacheWrapper(cache) }
+      );
+      await waitFor(() => {
+        expect(result.current.second.loading).toBe(true);
+      });
+      act(() => {
+        result.current.first.cancel();
+      });
+
+      await waitFor(() => {
+        expect(result.current.second.data).toBe('data');
+      });
+      expect(result.current.second.error).toBeUndefined();
+      expect(result.current.first.cancelled).toBe(true);
+      expect(service).toHaveBeenCalledTimes(2);
+    });
+
+    it('should abort the service signal on cancel', async () => {
+      const onError = vi.fn();
+      let receivedSignal: AbortSignal | undefined;
+      const service = vi.fn(
+        (_id: string, context?: RequestContext) =>
+          new Promise<string>((_resolve, reject) => {
+            receivedSignal = context?.signal;
+            context?.signal.addEventListener('abort', () => reject(new Error('aborted')));
+          })
+      );
+
+      const { result } = renderHook(() =>
+        useRequest(service, { manual: true, withSignal: true, onError })
+      );
+
+      act(() => {
+        result.current.run('1');
+      });
+      await waitFor(() => {
+        expect(result.current.loading).toBe(true);
+      });
+      expect(service).toHaveBeenCalledWith('1', { signal: receivedSignal });
+
+      act(() => {
+        result.current.cancel();
+      });
+
+      await waitFor(() => {
+        expect(result.current.cancelled).toBe(true);
+      });
+      expect(receivedSignal?.aborted).toBe(true);
+      expect(result.current.error).toBeUndefined();
+      expect(result.current.loading).toBe(false);
+      expect(onError).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('useMutation', () => {
+    beforeEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should apply optimistic data and roll it back on failure', async () => {
+      const cache = createMemoryRequestCache();
+      const service = vi.fn().mockResolvedValue(['a']);
+      let rejectCommit: (error: Error) => void = () => undefined;
+      const commit = vi.fn(
+        (_item: string) =>
+          new Promise<void>((_resolve, reject) => {
+            rejectCommit = reject;
+          })
+      );
+
+      const { result } = renderHook(
+        () => ({
+          request: useRequest(service, { cacheKey: 'items', defaultParams: [] }),
+          mutation: useMutation(commit, {
+            optimisticUpdate: (item) => ({
+              cacheKey: 'items',
+              data: (items: string[] = []) => [...items, item],
+            }),
+          }),
+        }),
+        { wrapper: createCacheWrapper(cache) }
+      );
+
+      await waitFor(() => {
+        expect(result.current.request.data).toEqual(['a']);
+      });
+
+      act(() => {
+        result.current.mutation.mutate('b');
+      });
+      expect(result.current.request.data).toEqual(['a', 'b']);
+
+      await act(async () => {
+        rejectCommit(new Error('Commit failed'));
+      });
+
+      expect(result.current.request.data).toEqual(['a']);
+      expect(result.current.mutation.error?.message).toBe('Commit failed');
+    });
+
+    it('should roll back the optimistic updates made before an updater throws', async () => {
+      const cache = createMemoryRequestCache();
+      const service = vi.fn().mockResolvedValue(['a']);
+      const commit = vi.fn((_item: string) => Promise.resolve());
+      const onError = vi.fn();
+      const onSettled = vi.fn();
+
+      const { result } = renderHook(
+        () => ({
+          request: useRequest(service, { cacheKey: 'items', defaultParams: [] }),
+          mutation: useMutation(commit, {
+            optimisticUpdate: (item) => [
+              { cacheKey: 'items', data: (items: string[] = []) => [...items, item] },
+              {
+                cacheKey: 'items',
+                data: (): string[] => {
+                  throw new Error('Bad update');
+                },
+              },
+            ],
+            onError,
+            onSettled,
+          }),
+        }),
+        { wrapper: createCacheWrapper(cache) }
+      );
+      await waitFor(() => {
+        expect(result.current.request.data).toEqual(['a']);
+      });
+
+      await act(async () => {
+        await expect(result.current.mutation.mutateAsync('b')).rejects.toThrow('Bad update');
+      });
+
+      expect(commit).not.toHaveBeenCalled();
+      expect(cache.get('items-[]')?.data).toEqual(['a']);
+      expect(result.current.request.data).toEqual(['a']);
+      expect(result.current.mutation.error?.message).toBe('Bad update');
+      expect(result.current.mutation.loading).toBe(false);
+      expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: 'Bad update' }), [
+        'b',
+      ]);
+      expect(onSettled).toHaveBeenCalledTimes(1);
+    });
+
+    it('should refetch instead of rolling back keys written since the optimistic update', async () => {
+      const cache = createMemoryRequestCache();
+      const service = vi.fn().mockResolvedValueOnce(['a']).mockResolvedValue(['a', 'c']);
+      let rejectCommit: (error: Error) => void = () => undefined;
+      const commit = (_item: string) =>
+        new Promise<void>((_resolve, reject) => {
+          rejectCommit = reject;
+        });
+
+      const { result } = renderHook(
+        () => ({
+          request: useRequest(service, { cacheKey: 'items', defaultParams: [] }),
+          mutation: useMutation(commit, {
+            optimisticUpdate: (item) => ({
+              cacheKey: 'items',
+              data: (items: string[] = []) => [...items, item],
+            }),
+          }),
+        }),
+        { wrapper: createCacheWrapper(cache) }
+      );
+      await waitFor(() => {
+        expect(result.current.request.data).toEqual(['a']);
+      });
+
+      act(() => {
+        result.current.mutation.mutate('b');
+        mutateCache('items', ['a', 'b', 'c'], { cache });
+      });
+      await act(async () => {
+        rejectCommit(new Error('Commit failed'));
+      });
+
+      await waitFor(() => {
+        expect(result.current.request.data).toEqual(['a', 'c']);
+      });
+      expect(service).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not let an older response overwrite optimistic data', async () => {
+      const cache = createMemoryRequestCache();
+      cache.set('items-[]', { data: ['a'], timestamp: Date.now() - 2000 });
+      let resolveRequest: (value: string[]) => void = () => undefined;
+      const service = vi.fn(
+        () =>
+          new Promise<string[]>((resolve) => {
+            resolveRequest = resolve;
+          })
+      );
+
+      const { result } = renderHook(
+        () => ({
+          request: useRequest(service, { cacheKey: 'items', defaultParams: [], staleTime: 1000 }),
+          mutation: useMutation((_item: string) => new Promise<void>(() => undefined), {
+            optimisticUpdate: (item) => ({
+              cacheKey: 'items',
+              data: (items: string[] = []) => [...items, item],
+            }),
+          }),
+        }),
+        { wrapper: createCacheWrapper(cache) }
+      );
+      await waitFor(() => {
+        expect(service).toHaveBeenCalledTimes(1);
+      });
+      await wait(5);
+
+      act(() => {
+        result.current.mutation.mutate('b');
+      });
+      expect(result.current.request.data).toEqual(['a', 'b']);
+      await act(async () => {
+        resolveRequest(['a']);
+      });
+
+      expect(cache.get('items-[]')?.data).toEqual(['a', 'b']);
+      expect(result.current.request.data).toEqual(['a', 'b']);
+    });
+
+    it('should keep optimistic data written in the millisecond the request started', async () => {
+      const now = Date.now();
+      vi.spyOn(Date, 'now').mockReturnValue(now);
+      const cache = createMemoryRequestCache();
+      cache.set('items-[]', { data: ['a'], timestamp: now - 2000 });
+      let resolveRequest: (value: string[]) => void = () => undefined;
+      const service = vi.fn(
+        () =>
+          new Promise<string[]>((resolve) => {
+            resolveRequest = resolve;
+          })
+      );
+
+      const { result } = renderHook(
+        () => ({
+          request: useRequest(service, { cacheKey: 'items', defaultParams: [], staleTime: 1000 }),
+          mutation: useMutation((_item: string) => new Promise<void>(() => undefined), {
+            optimisticUpdate: (item) => ({
+              cacheKey: 'items',
+              data: (items: string[] = []) => [...items, item],
+            }),
+          }),
+        }),
+        { wrapper: createCacheWrapper(cache) }
+      );
+      await waitFor(() => {
+        expect(service).toHaveBeenCalledTimes(1);
+      });
+
+      act(() => {
+        result.current.mutation.mutate('b');
+      });
+      await act(async () => {
+        resolveRequest(['a']);
+      });
+
+      expect(cache.get('items-[]')?.data).toEqual(['a', 'b']);
+      vi.restoreAllMocks();
+    });
+
+    it('should refetch invalidated keys after success', async () => {
+      const cache = createMemoryRequestCache();
+      const service = vi.fn().mockResolvedValueOnce('old').mockResolvedValue('new');
+
+      const { result } = renderHook(
+        () => ({
+          request: useRequest(service, { cacheKey: 'profile', defaultParams: [] }),
+          mutation: useMutation(() => Promise.resolve('saved'), { invalidateKeys: ['profile'] }),
+        }),
+        { wrapper: createCacheWrapper(cache) }
+      );
+
+      await waitFor(() => {
+        expect(result.current.request.data).toBe('old');
+      });
+
+      await act(async () => {
+        await result.current.mutation.mutateAsync();
+      });
+
+      await waitFor(() => {
+        expect(result.current.request.data).toBe('new');
+      });
+      expect(service).toHaveBeenCalledTimes(2);
+      expect(result.current.mutation.data).toBe('saved');
+    });
+
+    it('should keep stale data visible when a key is invalidated', async () => {
+      const cache = createMemoryRequestCache();
+      cache.set('report-[]', { data: 'cached', timestamp: Date.now() });
+      const service = vi.fn().mockResolvedValue('refetched');
+
+      const { result } = renderHook(
+        () => useRequest(service, { cacheKey: 'report', defaultParams: [] }),
+        { wrapper: createCacheWrapper(cache) }
+      );
+
+      await waitFor(() => {
+        expect(result.current.data).toBe('cached');
+      });
+
+      act(() => {
+        invalidateCache('report', { cache });
+      });
+      expect(result.current.loading).toBe(false);
+
+      await waitFor(() => {
+        expect(result.current.data).toBe('refetched');
+      });
+      expect(service).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('useInfiniteRequest', () => {
+    beforeEach(() => {
+      vi.useRealTimers();
+    });
+
+    const fetchOffset = (offset: number) =>
+      Promise.resolve({ items: [offset, offset + 1], next: offset < 2 ? offset + 2 : undefined });
+
+    it('should append pages until getNextPageParam returns undefined', async () => {
+      const service = vi.fn(fetchOffset);
+      const { result } = renderHook(() =>
+        useInfiniteRequest(service, {
+          initialPageParam: 0,
+          getNextPageParam: (lastPage) => lastPage.next,
+        })
+      );
+
+      await waitFor(() => {
+        expect(result.current.pages).toHaveLength(1);
+      });
+      expect(result.current.hasMore).toBe(true);
+
+      act(() => {
+        result.current.loadMore();
+      });
+
+      await waitFor(() => {
+        expect(result.current.pages).toHaveLength(2);
+      });
+      expect(result.current.pages.flatMap((page) => page.items)).toEqual([0, 1, 2, 3]);
+      expect(result.current.data?.pageParams).toEqual([0, 2]);
+      expect(result.current.hasMore).toBe(false);
+      expect(service).toHaveBeenLastCalledWith(2);
+    });
+
+    it('should refetch every loaded page on refresh and only the first on reload', async () => {
+      const service = vi.fn(fetchOffset);
+      const { result } = renderHook(() =>
+        useInfiniteRequest(service, {
+          initialPageParam: 0,
+          getNextPageParam: (lastPage) => lastPage.next,
+        })
+      );
+
+      await waitFor(() => {
+        expect(result.current.pages).toHaveLength(1);
+      });
+      act(() => {
+        result.current.loadMore();
+      });
+      await waitFor(() => {
+        expect(result.current.pages).toHaveLength(2);
+      });
+
+      service.mockClear();
+      await act(async () => {
+        await result.current.refreshAsync();
+      });
+      expect(service.mock.calls).toEqual([[0], [2]]);
+      expect(result.current.pages).toHaveLength(2);
+
+      service.mockClear();
+      act(() => {
+        result.current.reload();
+      });
+      await waitFor(() => {
+        expect(result.current.pages).toHaveLength(1);
+      });
+      expect(service.mock.calls).toEqual([[0]]);
+    });
+
+    it('should drop a next page that settles after a refresh started', async () => {
+      let resolveNextPage: (page: { items: number[]; next: undefined }) => void = () => undefined;
+      const service = vi.fn((offset: number) =>
+        offset === 0
+          ? fetchOffset(offset)
+          : new Promise<{ items: number[]; next: undefined }>((resolve) => {
+              resolveNextPage = resolve;
+            })
+      );
+      const { result } = renderHook(() =>
+        useInfiniteRequest(service, {
+          initialPageParam: 0,
+          getNextPageParam: (lastPage) => lastPage.next,
+        })
+      );
+
+      await waitFor(() => {
+        expect(result.current.pages).toHaveLength(1);
+      });
+      act(() => {
+        result.current.loadMore();
+      });
+      await act(async () => {
+        await result.current.refreshAsync();
+      });
+      await act(async () => {
+        resolveNextPage({ items: [2, 3], next: undefined });
+        await Promise.resolve();
+      });
+
+      expect(result.current.loadingMore).toBe(false);
+      expect(result.current.pages).toHaveLength(1);
+    });
+
+    it('should apply the timeout to the next page', async () => {
+      const service = vi.fn((offset: number) =>
+        offset === 0 ? fetchOffset(offset) : new Promise<never>(() => undefined)
+      );
+      const { result } = renderHook(() =>
+        useInfiniteRequest(service, {
+          initialPageParam: 0,
+          getNextPageParam: (lastPage) => lastPage.next,
+          timeout: 20,
+        })
+      );
+
+      await waitFor(() => {
+        expect(result.current.pages).toHaveLength(1);
+      });
+      act(() => {
+        result.current.loadMore();
+      });
+
+      await waitFor(() => {
+        expect(result.current.error).toBeInstanceOf(TimeoutError);
+      });
+      expect(result.current.loadingMore).toBe(false);
+    });
+  });
+
+  describe('usePaginatedRequest', () => {
+    beforeEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should navigate between pages and stop at the last page', async () => {
+      const service = vi.fn(({ page, pageSize }: { page: number; pageSize: number }) =>
+        Promise.resolve({ page, total: pageSize * 2 })
+      );
+      const { result } = renderHook(() =>
+        usePaginatedRequest(service, { defaultPageSize: 5, getTotal: (data) => data.total })
+      );
+
+      await waitFor(() => {
+        expect(result.current.data?.page).toBe(1);
+      });
+      expect(result.current.totalPages).toBe(2);
+      expect(result.current.hasMore).toBe(true);
+
+      act(() => {
+        result.current.next();
+      });
+
+      await waitFor(() => {
+        expect(result.current.data?.page).toBe(2);
+      });
+      expect(result.current.page).toBe(2);
+      expect(result.current.hasMore).toBe(false);
+
+      act(() => {
+        result.current.next();
+      });
+      expect(service).toHaveBeenCalledTimes(2);
+
+      act(() => {
+        result.current.setPageSize(10);
+      });
+
+      await waitFor(() => {
+        expect(result.current.pageSize).toBe(10);
+      });
+      expect(result.current.page).toBe(1);
+      expect(service).toHaveBeenLastCalledWith({ page: 1, pageSize: 10 });
+    });
+  });
+
+  describe('useSuspenseRequest', () => {
+    beforeEach(() => {
+      vi.useRealTimers();
+    });
+
+    function renderUser(cache: RequestCache, service: (id: string) => Promise<string>) {
+      function User() {
+        const { data } = useSuspenseRequest(service, { cacheKey: 'user', defaultParams: ['1'] });
+        return <p>Name: {data}</p>;
+      }
+
+      return render(
+        <RequestCacheProvider cache={cache}>
+          <TestErrorBoundary>
+            <Suspense fallback={<p>Loading</p>}>
+              <User />
+            </Suspense>
+          </TestErrorBoundary>
+        </RequestCacheProvider>
+      );
+    }
+
+    it('should suspend until the first response is cached', async () => {
+      const cache = createMemoryRequestCache();
+      const service = vi.fn().mockResolvedValue('Ada');
+
+      renderUser(cache, service);
+      expect(screen.getByText('Loading')).toBeTruthy();
+
+      expect(await screen.findByText('Name: Ada')).toBeTruthy();
+      expect(service).toHaveBeenCalledTimes(1);
+      expect(cache.get('user-["1"]')?.data).toBe('Ada');
+    });
+
+    it('should render cached data without suspending', () => {
+      const cache = createMemoryRequestCache();
+      cache.set('user-["1"]', { data: 'Grace', timestamp: Date.now() });
+      const service = vi.fn().mockResolvedValue('Grace');
+
+      renderUser(cache, service);
+
+      expect(screen.getByText('Name: Grace')).toBeTruthy();
+      expect(screen.queryByText('Loading')).toBeNull();
+    });
+
+    it('should throw request errors to the nearest error boundary', async () => {
+      const consoleError = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+      const cache = createMemoryRequestCache();
+      const service = vi.fn().mockRejectedValue(new Error('Not found'));
+
+      renderUser(cache, service);
+
+      expect(await screen.findByText('Error: Not found')).toBeTruthy();
+      consoleError.mockRestore();
+    });
+
+    it('should keep the error until resetSuspenseRequest instead of refetching', async () => {
+      const consoleError = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+      const cache = createMemoryRequestCache();
+      const service = vi
+        .fn()
+        .mockRejectedValueOnce(new Error('Not found'))
+        .mockResolvedValue('Ada');
+
+      const first = renderUser(cache, service);
+      expect(await screen.findByText('Error: Not found')).toBeTruthy();
+      first.unmount();
+
+      // A second boundary reading the key, even much later, gets the same error
+      const now = Date.now();
+      const dateNow = vi.spyOn(Date, 'now').mockReturnValue(now + 60_000);
+      const second = renderUser(cache, service);
+      expect(screen.getByText('Error: Not found')).toBeTruthy();
+      second.unmount();
+      dateNow.mockRestore();
+      expect(service).toHaveBeenCalledTimes(1);
+
+      resetSuspenseRequest('user', { cache });
+      renderUser(cache, service);
+      expect(await screen.findByText('Name: Ada')).toBeTruthy();
+      expect(service).toHaveBeenCalledTimes(2);
+      consoleError.mockRestore();
+    });
+
+    it('should fetch a failed key again once it is invalidated', async () => {
+      const consoleError = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+      const cache = createMemoryRequestCache();
+      const service = vi
+        .fn()
+        .mockRejectedValueOnce(new Error('Not found'))
+        .mockResolvedValue('Ada');
+
+      const first = renderUser(cache, service);
+      expect(await screen.findByText('Error: Not found')).toBeTruthy();
+      first.unmount();
+
+      invalidateCache('user', { cache });
+      renderUser(cache, service);
+      expect(await screen.findByText('Name: Ada')).toBeTruthy();
+      expect(service).toHaveBeenCalledTimes(2);
+      consoleError.mockRestore();
+    });
+
+    it('should reset failed requests made with a function cacheKey', async () => {
+      const consoleError = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+      const cache = createMemoryRequestCache();
+      const cacheKey = (id: string) => `user:${id}`;
+      const service = vi
+        .fn((_id: string) => Promise.resolve('Ada'))
+        .mockRejectedValueOnce(new Error('Not found'));
+      function User() {
+        const { data } = useSuspenseRequest(service, { cacheKey, defaultParams: ['1'] });
+        return <p>Name: {data}</p>;
+      }
+      const renderKeyedUser = () =>
+        render(
+          <RequestCacheProvider cache={cache}>
+            <TestErrorBoundary>
+              <Suspense fallback={<p>Loading</p>}>
+                <User />
+              </Suspense>
+            </TestErrorBoundary>
+          </RequestCacheProvider>
+        );
+
+      const first = renderKeyedUser();
+      expect(await screen.findByText('Error: Not found')).toBeTruthy();
+      first.unmount();
+
+      resetSuspenseRequest(cacheKey, { cache });
+      renderKeyedUser();
+      expect(await screen.findByText('Name: Ada')).toBeTruthy();
+      expect(service).toHaveBeenCalledTimes(2);
+      consoleError.mockRestore();
+    });
+  });
+
+  describe('request hydration', () => {
+    beforeEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should render prefetched data on the first render after hydration', async () => {
+      const serverCache = createMemoryRequestCache();
+      await prefetchRequest('user', (id: string) => Promise.resolve(`user ${id}`), ['1'], {
+        cache: serverCache,
+      });
+      const state = JSON.parse(JSON.stringify(dehydrateRequestCache({ cache: serverCache })));
+
+      const clientCache = createMemoryRequestCache();
+      const service = vi.fn().mockResolvedValue('refetched');
+      const { result } = renderHook(
+        () => useRequest(service, { cacheKey: 'user', defaultParams: ['1'] }),
+        {
+          wrapper: ({ children }: { children: ReactNode }) => (
+            <RequestCacheProvider cache={clientCache}>
+              <RequestHydrationBoundary state={state}>{children}</RequestHydrationBoundary>
+            </RequestCacheProvider>
+          ),
+        }
+      );
+
+      expect(result.current.data).toBe('user 1');
+      expect(result.current.loading).toBe(false);
+      await waitFor(() => {
+        expect(result.current.isValidating).toBe(false);
+      });
+      expect(service).not.toHaveBeenCalled();
+    });
+
+    it('should hydrate once under StrictMode', () => {
+      const cache = createMemoryRequestCache();
+      const state: DehydratedRequestCache = {
+        entries: [['user-["1"]', { data: 'user 1', timestamp: Date.now() }]],
+      };
+      const set = vi.spyOn(cache, 'set');
+      const { result } = renderHook(
+        () => useRequest(vi.fn(), { cacheKey: 'user', defaultParams: ['1'], staleTime: Infinity }),
+        {
+          wrapper: ({ children }: { children: ReactNode }) => (
+            <StrictMode>
+              <RequestCacheProvider cache={cache}>
+                <RequestHydrationBoundary state={state}>{children}</RequestHydrationBoundary>
+              </RequestCacheProvider>
+            </StrictMode>
+          ),
+        }
+      );
+
+      expect(result.current.data).toBe('user 1');
+      expect(set).toHaveBeenCalledTimes(1);
+    });
+
+    it('should update hooks already using a key after the boundary renders', async () => {
+      const cache = createMemoryRequestCache();
+      cache.set('user-[]', { data: 'cached', timestamp: Date.now() });
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const User = () => {
+        const { data } = useRequest(() => Promise.resolve('fetched'), {
+          cacheKey: 'user',
+          defaultParams: [],
+          staleTime: Infinity,
+        });
+        return <p>{String(data)}</p>;
+      };
+      const state: DehydratedRequestCache = {
+        entries: [['user-[]', { data: 'hydrated', timestamp: Date.now() + 1000 }]],
+      };
+      const App = ({ hydrate }: { hydrate: boolean }) => (
+        <RequestCacheProvider cache={cache}>
+          <User />
+          {hydrate && <RequestHydrationBoundary state={state} />}
+        </RequestCacheProvider>
+      );
+
+      const { rerender } = render(<App hydrate={false} />);
+      expect(screen.getByText('cached')).toBeTruthy();
+      rerender(<App hydrate />);
+
+      await screen.findByText('hydrated');
+      expect(errorSpy).not.toHaveBeenCalled();
+      errorSpy.mockRestore();
+    });
+
+    it('should resolve undefined when a prefetch fails', async () => {
+      const cache = createMemoryRequestCache();
+      const data = await prefetchRequest('user', () => Promise.reject(new Error('Down')), [], {
+        cache,
+      });
+
+      expect(data).toBeUndefined();
+      expect(dehydrateRequestCache({ cache }).entries).toEqual([]);
+    });
+
+    it('should keep newer entries when hydrating', () => {
+      const cache = createMemoryRequestCache();
+      cache.set('user-[]', { data: 'newer', timestamp: 2000 });
+
+      hydrateRequestCache(
+        {
+          entries: [
+            ['user-[]', { data: 'older', timestamp: 1000 }],
+            ['team-[]', { data: 'team', timestamp: 1000 }],
+          ],
+        },
+        { cache }
+      );
+
+      expect(cache.get('user-[]')?.data).toBe('newer');
+      expect(cache.get('team-[]')?.data).toBe('team');
+    });
+  });
+
+  describe('retry policy', () => {
+    const httpError = (message: string, status: number, retryAfter?: number) =>
+      Object.assign(new Error(message), { status, retryAfter });
+
+    it('should classify client errors as not retryable', () => {
+      expect(isRetryableError(httpError('Not found', 404))).toBe(false);
+      expect(isRetryableError(httpError('Too many requests', 429))).toBe(true);
+      expect(isRetryableError(httpError('Unavailable', 503))).toBe(true);
+      expect(isRetryableError(new Error('Network error'))).toBe(true);
+    });
+
+    it('should not retry client errors in useRequest', async () => {
+      vi.useRealTimers();
+      const service = vi.fn().mockRejectedValue(httpError('Not found', 404));
+      const { result } = renderHook(() =>
+        useRequest(service, { defaultParams: [], retry: { count: 3, delay: 0 } })
+      );
+
+      await waitFor(() => {
+        expect(result.current.error?.message).toBe('Not found');
+      });
+      expect(service).toHaveBeenCalledTimes(1);
+    });
+
+    it('should wait for the retryAfter hint before retrying', async () => {
+      const function_ = vi
+        .fn()
+        .mockRejectedValueOnce(httpError('Unavailable', 503, 5000))
+        .mockResolvedValue('ok');
+      const { result } = renderHook(() => useAsyncRetry(function_, { retries: 1, retryDelay: 10 }));
+
+      expect(result.current[0].status).toBe('idle');
+      act(() => {
+        void result.current[1]();
+      });
+      await act(async () => {
+        await vi.advanceTimersByTimeAsync(4000);
+      });
+      expect(function_).toHaveBeenCalledTimes(1);
+      expect(result.current[0].status).toBe('pending');
+
+      await act(async () => {
+        await vi.advanceTimersByTimeAsync(1000);
+      });
+      expect(function_).toHaveBeenCalledTimes(2);
+      expect(result.current[0].status).toBe('success');
+      expect(result.current[0].value).toBe('ok');
+    });
+
+    it('should give up once maxElapsedTime would be exceeded', async () => {
+      const function_ = vi.fn().mockRejectedValue(new Error('Down'));
+      const { result } = renderHook(() =>
+        useAsyncRetry(function_, { count: 5, delay: 1000, maxElapsedTime: 1500 })
+      );
+
+      act(() => {
+        void result.current[1]();
+      });
+      await act(async () => {
+        await vi.advanceTimersByTimeAsync(5000);
+      });
+
+      expect(function_).toHaveBeenCalledTimes(2);
+      expect(result.current[0].status).toBe('error');
+      expect(result.current[0].error?.message).toBe('Down');
+    });
+  });
+
+  describe('request events', () => {
+    beforeEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should report start, retry, success, dedup and cache hits', async () => {
+      const events: RequestEvent[] = [];
+      const unsubscribe = onRequestEvent((event) => events.push(event));
+      const cache = createMemoryRequestCache();
+      const service = vi.fn().mockRejectedValueOnce(new Error('Flaky')).mockResolvedValue('data');
+
+      const { result } = renderHook(
+        () => ({
+          first: useRequest(service, {
+            cacheKey: 'events',
+            defaultParams: [],
+            retry: { count: 1, delay: 0 },
+          }),
+          second: useRequest(service, { cacheKey: 'events', defaultParams: [] }),
+        }),
+        { wrapper: createCacheWrapper(cache) }
+      );
+
+      await waitFor(() => {
+        expect(result.current.second.data).toBe('data');
+      });
+      await act(async () => {
+        await result.current.first.runAsync();
+      });
+      unsubscribe();
+
+      expect(events.map((event) => event.type)).toEqual([
+        'start',
+        'dedup',
+        'retry',
+        'success',
+        'cache-hit',
+      ]);
+      expect(events[2]).toMatchObject({ key: 'events-[]', attempt: 1, delay: 0 });
+      expect(events[3]?.duration).toBeGreaterThanOrEqual(0);
+    });
+
+    it('should report cancelled requests', async () => {
+      const events: RequestEvent[] = [];
+      const unsubscribe = onRequestEvent((event) => events.push(event));
+      const { result } = renderHook(() =>
+        useRequest(() => new Promise<string>(() => undefined), { defaultParams: [] })
+      );
+
+      await waitFor(() => {
+        expect(result.current.loading).toBe(true);
+      });
+      act(() => {
+        result.current.cancel();
+      });
+
+      await waitFor(() => {
+        expect(events.map((event) => event.type)).toEqual(['start', 'cancel']);
+      });
+      unsubscribe();
+    });
+
+    it('should list cache entries in the inspector', () => {
+      const cache = createMemoryRequestCache();
+      cache.set('user-["1"]', { data: { name: 'Ada' }, timestamp: Date.now() });
+      cache.set('team-[]', { data: 'core', timestamp: Date.now(), invalidated: true });
+
+      render(<RequestCacheInspector cache={cache} />);
+
+      expect(screen.getByText('user-["1"]')).toBeTruthy();
+      expect(screen.getByText('{"name":"Ada"}')).toBeTruthy();
+      expect(screen.getByText('invalidated')).toBeTruthy();
+    });
+  });
+
+  describe('useRequests', () => {
+    beforeEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should run entries in parallel and combine their data', async () => {
+      const fetchUser = vi.fn((id: string) => Promise.resolve(`user ${id}`));
+      const { result } = renderHook(() =>
+        useRequests(
+          ['1', '2', '3'].map((id) => ({
+            service: fetchUser,
+            params: [id] as [string],
+            cacheKey: 'user',
+          })),
+          { combine: (results) => results.map((entry) => entry.data) }
+        )
+      );
+
+      expect(result.current.loading).toBe(true);
+      await waitFor(() => {
+        expect(result.current.loading).toBe(false);
+      });
+      expect(result.current.data).toEqual(['user 1', 'user 2', 'user 3']);
+      expect(fetchUser).toHaveBeenCalledTimes(3);
+    });
+
+    it('should pass the data of dependsOn into params', async () => {
+      const fetchUser = vi.fn((id: string) => Promise.resolve({ id, teamId: `team-${id}` }));
+      const fetchTeam = vi.fn((teamId: string) => Promise.resolve(`${teamId} members`));
+
+      const { result } = renderHook(() =>
+        useRequests([
+          { service: fetchUser, params: ['1'] },
+          {
+            service: fetchTeam,
+            dependsOn: 0,
+            params: (user: { teamId: string }) => [user.teamId],
+          },
+        ])
+      );
+
+      await waitFor(() => {
+        expect(result.current.results[1].data).toBe('team-1 members');
+      });
+      expect(fetchTeam).toHaveBeenCalledWith('team-1');
+      expect(result.current.loading).toBe(false);
+    });
+
+    it('should keep entry states with their cache key when entries are reordered', async () => {
+      const fetchUser = vi.fn((id: string) => Promise.resolve(`user ${id}`));
+      const { result, rerender } = renderHook(
+        ({ ids }: { ids: string[] }) =>
+          useRequests(
+            ids.map((id) => ({ service: fetchUser, params: [id] as [string], cacheKey: 'user' }))
+          ),
+        { initialProps: { ids: ['1', '2'] } }
+      );
+
+      await waitFor(() => {
+        expect(result.current.loading).toBe(false);
+      });
+      rerender({ ids: ['2', '1'] });
+
+      expect(result.current.results.map((entry) => entry.data)).toEqual(['user 2', 'user 1']);
+    });
+
+    it('should rerun an entry whose cache key changes with the same params', async () => {
+      const fetchUser = vi.fn((id: string) => Promise.resolve(`user ${id}`));
+      const fetchTeam = vi.fn((id: string) => Promise.resolve(`team ${id}`));
+      const { result, rerender } = renderHook(
+        ({ kind }: { kind: 'user' | 'team' }) =>
+          useRequests([
+            {
+              service: kind === 'user' ? fetchUser : fetchTeam,
+              params: ['1'] as [string],
+              cacheKey: kind,
+            },
+          ]),
+        { initialProps: { kind: 'user' as 'user' | 'team' } }
+      );
+
+      await waitFor(() => {
+        expect(result.current.results[0]?.data).toBe('user 1');
+      });
+      rerender({ kind: 'team' });
+
+      await waitFor(() => {
+        expect(result.current.results[0]?.data).toBe('team 1');
+      });
+      expect(fetchTeam).toHaveBeenCalledTimes(1);
+    });
+
+    it('should skip disabled entries and report the first error', async () => {
+      const disabled = vi.fn().mockResolvedValue('never');
+      const { result } = renderHook(() =>
+        useRequests([
+          { service: () => Promise.reject(new Error('Failed')) },
+          { service: disabled, enabled: false },
+        ])
+      );
+
+      await waitFor(() => {
+        expect(result.current.error?.message).toBe('Failed');
+      });
+      expect(disabled).not.toHaveBeenCalled();
+      expect(result.current.results[1]).toEqual({
+        data: undefined,
+        error: undefined,
+        loading: false,
+      });
+    });
+  });
+
+  describe('timeouts', () => {
+    beforeEach(() => {
+      vi.useRealTimers();
+    });
+
+    const hang = (): Promise<never> => new Promise<never>(() => undefined);
+
+    it('should fail useAsync and useAsyncFunction with a TimeoutError', async () => {
+      const asyncState = renderHook(() => useAsync(hang, [], { timeout: 20 }));
+      const asyncFunction = renderHook(() => useAsyncFunction(hang, { timeout: 20 }));
+
+      let value: unknown = 'pending';
+      await act(async () => {
+        value = await asyncFunction.result.current[1]();
+      });
+
+      expect(value).toBeUndefined();
+      expect(asyncFunction.result.current[0].error).toBeInstanceOf(TimeoutError);
+      await waitFor(() => {
+        expect(asyncState.result.current.error).toBeInstanceOf(TimeoutError);
+      });
+    });
+
+    it('should abort the signal of a timed out request', async () => {
+      let signal: AbortSignal | undefined;
+      const service = vi.fn((context?: RequestContext) => {
+        signal = context?.signal;
+        return hang();
+      });
+
+      const { result } = renderHook(() =>
+        useRequest(service, { defaultParams: [], timeout: 20, withSignal: true })
+      );
+
+      await waitFor(() => {
+        expect(result.current.error).toBeInstanceOf(TimeoutError);
+      });
+      expect(signal?.aborted).toBe(true);
+      expect(signal?.reason).toBe(result.current.error);
+      expect(result.current.cancelled).toBe(false);
+    });
+
+    it('should abort the signal of a timed out useAsyncRetry attempt', async () => {
+      const signals: AbortSignal[] = [];
+      const function_ = vi.fn((_id: string, context?: RequestContext) => {
+        if (context) {
+          signals.push(context.signal);
+        }
+        return hang();
+      });
+      const { result } = renderHook(() =>
+        useAsyncRetry(function_, { retries: 1, retryDelay: 0, timeout: 20, withSignal: true })
+      );
+
+      await act(async () => {
+        await result.current[1]('1');
+      });
+
+      expect(result.current[0].error).toBeInstanceOf(TimeoutError);
+      expect(function_).toHaveBeenCalledWith('1', expect.objectContaining({ signal: signals[0] }));
+      expect(signals).toHaveLength(2);
+      expect(signals.every((signal) => signal.aborted)).toBe(true);
+    });
+
+    it('should retry timed out attempts until the total timeout', async () => {
+      const service = vi.fn(hang);
+
+      const { result } = renderHook(() =>
+        useRequest(service, {
+          defaultParams: [],
+          retry: { count: 100, delay: 0 },
+          timeout: { attempt: 20, total: 70 },
+        })
+      );
+
+      await waitFor(() => {
+        expect(result.current.error).toBeInstanceOf(TimeoutError);
+      });
+      expect((result.current.error as TimeoutError).timeout).toBe(70);
+      expect(service.mock.calls.length).toBeGreaterThan(1);
+      expect(service.mock.calls.length).toBeLessThan(5);
+    });
+  });
+
+  describe('offline mutation queue', () => {
+    beforeEach(() => {
+      vi.useRealTimers();
+      window.localStorage.clear();
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('should queue mutations made offline and replay them on reconnect', async () => {
+      const onLine = vi.spyOn(window.navigator, 'onLine', 'get').mockReturnValue(false);
+      const queue = createMutationQueue({ key: 'test:mutations' });
+      const save = vi.fn((todo: string) => Promise.resolve(`saved ${todo}`));
+
+      const { result } = renderHook(() => ({
+        mutation: useMutation(save, { offline: { mutationKey: 'save', queue } }),
+        queueState: useMutationQueue({ queue }),
+      }));
+
+      let promise: Promise<string> | undefined;
+      act(() => {
+        promise = result.current.mutation.mutateAsync('a');
+      });
+      await waitFor(() => {
+        expect(window.localStorage.getItem('test:mutations')).toContain('"variables":["a"]');
+      });
+      expect(result.current.queueState.pendingCount).toBe(1);
+      expect(result.current.mutation.queued).toBe(true);
+      expect(save).not.toHaveBeenCalled();
+
+      onLine.mockReturnValue(true);
+      act(() => {
+        window.dispatchEvent(new Event('online'));
+      });
+
+      await act(async () => {
+        await expect(promise).resolves.toBe('saved a');
+      });
+      expect(result.current.mutation.data).toBe('saved a');
+      expect(result.current.mutation.queued).toBe(false);
+      expect(result.current.queueState.pendingCount).toBe(0);
+    });
+
+    it('should replay a mutation queued after a retryable failure while online', async () => {
+      vi.spyOn(Math, 'random').mockReturnValue(0);
+      const queue = createMutationQueue({ key: 'test:mutations' });
+      const save = vi
+        .fn()
+        .mockRejectedValueOnce(Object.assign(new Error('Unavailable'), { status: 503 }))
+        .mockResolvedValue('saved');
+
+      const { result } = renderHook(() =>
+        useMutation(save, { offline: { mutationKey: 'save', queue } })
+      );
+      // Let the replay on mount finish first
+      await act(() => queue.replay());
+
+      let promise: Promise<unknown> | undefined;
+      act(() => {
+        promise = result.current.mutateAsync();
+      });
+      await waitFor(() => {
+        expect(result.current.queued).toBe(true);
+      });
+
+      // Replayed after the backoff (500ms without jitter), with no `online` event
+      await act(async () => {
+        await expect(promise).resolves.toBe('saved');
+      });
+      expect(save).toHaveBeenCalledTimes(2);
+      expect(result.current.queued).toBe(false);
+      expect(queue.getPending()).toEqual([]);
+    });
+
+    it('should drop replayed mutations that conflict', async () => {
+      const storage = {
+        load: () => [{ id: '1', mutationKey: 'save', variables: ['a'], createdAt: 0, attempts: 0 }],
+        save: vi.fn(),
+      };
+      const queue = createMutationQueue({ storage });
+      const conflict = Object.assign(new Error('Conflict'), { status: 409 });
+      const onConflict = vi.fn();
+
+      const { result } = renderHook(() => {
+        useMutation(() => Promise.reject(conflict), { offline: { mutationKey: 'save', queue } });
+        return useMutationQueue({ queue, onConflict });
+      });
+
+      await waitFor(() => {
+        expect(onConflict).toHaveBeenCalledWith(expect.objectContaining({ id: '1' }), conflict);
+      });
+      expect(result.current.pendingCount).toBe(0);
+      expect(storage.save).toHaveBeenLastCalledWith([]);
+    });
+
+    it('should keep the mutations queued by other tabs sharing the storage', async () => {
+      const firstTab = createMutationQueue({ key: 'test:shared' });
+      const secondTab = createMutationQueue({ key: 'test:shared' });
+      await Promise.all([firstTab.ready, secondTab.ready]);
+
+      void firstTab.enqueue('save', ['a']);
+      void secondTab.enqueue('save', ['b']);
+
+      await waitFor(() => {
+        const stored = window.localStorage.getItem('test:shared');
+        expect(stored).toContain('"variables":["a"]');
+        expect(stored).toContain('"variables":["b"]');
+      });
+    });
+
+    it('should replay the shared mutations in a single tab', async () => {
+      window.localStorage.setItem(
+        'test:shared',
+        JSON.stringify([
+          { id: '1', mutationKey: 'save', variables: ['a'], createdAt: 0, attempts: 0 },
+        ])
+      );
+      const held = new Map<string, Promise<unknown>>();
+      Object.defineProperty(navigator, 'locks', {
+        configurable: true,
+        value: {
+          request: (name: string, callback: () => Promise<unknown>) => {
+            const run = (held.get(name) ?? Promise.resolve()).then(callback);
+            held.set(
+              name,
+              run.catch(() => undefined)
+            );
+            return run;
+          },
+        },
+      });
+      const firstTab = createMutationQueue({ key: 'test:shared' });
+      const secondTab = createMutationQueue({ key: 'test:shared' });
+      const save = vi.fn().mockResolvedValue('saved');
+      firstTab.register('save', save);
+      secondTab.register('save', save);
+
+      await Promise.all([firstTab.replay(), secondTab.replay()]);
+      Reflect.deleteProperty(navigator, 'locks');
+
+      expect(save).toHaveBeenCalledTimes(1);
+      expect(firstTab.getPending()).toEqual([]);
+      expect(secondTab.getPending()).toEqual([]);
+    });
+
+    it('should retry a replay that failed with a retryable error', async () => {
+      vi.spyOn(Math, 'random').mockReturnValue(0);
+      const queue = createMutationQueue({ key: 'test:mutations' });
+      const save = vi
+        .fn()
+        .mockRejectedValueOnce(Object.assign(new Error('Unavailable'), { status: 503 }))
+        .mockResolvedValue('saved');
+      queue.register('save', save);
+
+      const promise = queue.enqueue('save', ['a']);
+      await queue.replay();
+      expect(save).toHaveBeenCalledTimes(1);
+      expect(queue.getPending()).toEqual([expect.objectContaining({ attempts: 1 })]);
+
+      // Retried after the backoff (500ms without jitter) rather than the next `online` event
+      await expect(promise).resolves.toBe('saved');
+      expect(save).toHaveBeenCalledTimes(2);
+      expect(queue.getPending()).toEqual([]);
+    });
+  });
+
+  describe('polling', () => {
+    beforeEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should wait for the previous poll to settle', async () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+      const service = vi.fn(async () => {
+        inFlight += 1;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await wait(30);
+        inFlight -= 1;
+        return 'data';
+      });
+
+      const { unmount } = renderHook(() =>
+        useRequest(service, { defaultParams: [], pollingInterval: 5 })
+      );
+      await advance(150);
+      unmount();
+
+      expect(service.mock.calls.length).toBeGreaterThan(1);
+      expect(maxInFlight).toBe(1);
+    });
+
+    it('should stop polling when stopPollingWhen matches', async () => {
+      let count = 0;
+      const service = vi.fn(() => Promise.resolve(++count));
+
+      const { result } = renderHook(() =>
+        useRequest(service, {
+          defaultParams: [],
+          pollingInterval: 5,
+          stopPollingWhen: (data) => data >= 3,
+        })
+      );
+
+      await waitFor(() => {
+        expect(result.current.data).toBe(3);
+      });
+      await advance(50);
+      expect(service).toHaveBeenCalledTimes(3);
+    });
+
+    it('should stop polling after pollingErrorRetryCount failures', async () => {
+      const service = vi.fn(() => Promise.reject(new Error('Down')));
+
+      renderHook(() =>
+        useRequest(service, { defaultParams: [], pollingInterval: 5, pollingErrorRetryCount: 1 })
+      );
+
+      await waitFor(() => {
+        expect(service).toHaveBeenCalledTimes(2);
+      });
+      await advance(80);
+      expect(service).toHaveBeenCalledTimes(2);
+    });
+
+    it('should refresh as soon as the page becomes visible', async () => {
+      let hidden = false;
+      vi.spyOn(document, 'hidden', 'get').mockImplementation(() => hidden);
+      const service = vi.fn().mockResolvedValue('data');
+
+      renderHook(() => useRequest(service, { defaultParams: [], pollingInterval: 60_000 }));
+      await waitFor(() => {
+        expect(service).toHaveBeenCalledTimes(1);
+      });
+
+      act(() => {
+        hidden = true;
+        document.dispatchEvent(new Event('visibilitychange'));
+      });
+      act(() => {
+        hidden = false;
+        document.dispatchEvent(new Event('visibilitychange'));
+      });
+
+      await waitFor(() => {
+        expect(service).toHaveBeenCalledTimes(2);
+      });
+      vi.restoreAllMocks();
+    });
+  });
+
+  describe('cross-tab broadcast', () => {
+    let otherTab: BroadcastChannel;
+
+    beforeEach(() => {
+      vi.useRealTimers();
+      otherTab = new BroadcastChannel('kitium:request-cache');
+    });
+
+    afterEach(() => {
+      otherTab.close();
+    });
+
+    it('should send successful responses to other tabs', async () => {
+      const received: unknown[] = [];
+      otherTab.addEventListener('message', (event) => received.push(event.data));
+
+      const { unmount } = renderHook(() =>
+        useRequest(() => Promise.resolve('data'), {
+          defaultParams: [],
+          cacheKey: () => 'shared-user',
+          broadcast: true,
+        })
+      );
+
+      await waitFor(() => {
+        expect(received).toEqual([
+          { key: 'shared-user', entry: expect.objectContaining({ data: 'data' }) },
+        ]);
+      });
+      unmount();
+    });
+
+    it('should apply responses received from other tabs', async () => {
+      const { result, unmount } = renderHook(() =>
+        useRequest(() => Promise.resolve('local'), {
+          defaultParams: [],
+          cacheKey: () => 'shared-remote',
+          broadcast: true,
+        })
+      );
+      await waitFor(() => {
+        expect(result.current.data).toBe('local');
+      });
+
+      otherTab.postMessage({
+        key: 'shared-remote',
+        entry: { data: 'remote', timestamp: Date.now() + 1 },
+      });
+
+      await waitFor(() => {
+        expect(result.current.data).toBe('remote');
+      });
+      unmount();
+    });
+
+    it('should only poll in the tab leading the key', async () => {
+      // Another tab holds the lock, so this one never leads
+      Object.defineProperty(navigator, 'locks', {
+        configurable: true,
+        value: { request: vi.fn(() => new Promise(() => undefined)) },
+      });
+      const service = vi.fn().mockResolvedValue('data');
+
+      const { unmount } = renderHook(() =>
+        useRequest(service, {
+          defaultParams: [],
+          cacheKey: () => 'shared-polled',
+          broadcast: true,
+          pollingInterval: 5,
+        })
+      );
+      await waitFor(() => {
+        expect(service).toHaveBeenCalledTimes(1);
+      });
+      await advance(50);
+      unmount();
+
+      expect(service).toHaveBeenCalledTimes(1);
+      Reflect.deleteProperty(navigator, 'locks');
+    });
+
+    it('should only start polling once the tab wins the election', async () => {
+      let grant: () => void = () => undefined;
+      Object.defineProperty(navigator, 'locks', {
+        configurable: true,
+        value: {
+          request: (_name: string, _options: unknown, callback: () => Promise<void>) =>
+            new Promise<void>((resolve) => {
+              grant = () => resolve(callback());
+            }),
+        },
+      });
+      const service = vi.fn().mockResolvedValue('data');
+
+      const { unmount } = renderHook(() =>
+        useRequest(service, {
+          defaultParams: [],
+          cacheKey: () => 'shared-election',
+          broadcast: true,
+          pollingInterval: 5,
+        })
+      );
+      await advance(50);
+      expect(service).toHaveBeenCalledTimes(1);
+
+      act(() => {
+        grant();
+      });
+      await waitFor(() => {
+        expect(service.mock.calls.length).toBeGreaterThan(1);
+      });
+      unmount();
+      Reflect.deleteProperty(navigator, 'locks');
+    });
+
+    it('should hand the polling over to a visible tab when the leader is hidden', async () => {
+      let hidden = false;
+      vi.spyOn(document, 'hidden', 'get').mockImplementation(() => hidden);
+      // Locks granted in request order, like the Web Locks API
+      let held: Promise<unknown> = Promise.resolve();
+      const request = (
+        _name: string,
+        options: { signal?: AbortSignal },
+        callback: () => Promise<void>
+      ): Promise<void> => {
+        const run = held.then(() => (options.signal?.aborted ? undefined : callback()));
+        held = run.catch(() => undefined);
+        return run;
+      };
+      Object.defineProperty(navigator, 'locks', { configurable: true, value: { request } });
+      const service = vi.fn().mockResolvedValue('data');
+
+      const { unmount } = renderHook(() =>
+        useRequest(service, {
+          defaultParams: [],
+          cacheKey: () => 'shared-handover',
+          broadcast: true,
+          pollingInterval: 5,
+        })
+      );
+      await waitFor(() => {
+        expect(service.mock.calls.length).toBeGreaterThan(1);
+      });
+
+      // A visible tab waits for the lock of the key
+      const followerLeads = vi.fn(() => new Promise<void>(() => undefined));
+      void request('kitium:request-leader:shared-handover', {}, followerLeads);
+      expect(followerLeads).not.toHaveBeenCalled();
+
+      act(() => {
+        hidden = true;
+        document.dispatchEvent(new Event('visibilitychange'));
+      });
+      await waitFor(() => {
+        expect(followerLeads).toHaveBeenCalled();
+      });
+
+      // Visible again, the tab refreshes once and leaves the polling to the new leader
+      act(() => {
+        hidden = false;
+        document.dispatchEvent(new Event('visibilitychange'));
+      });
+      await advance(10);
+      const calls = service.mock.calls.length;
+      await advance(50);
+      unmount();
+
+      expect(service).toHaveBeenCalledTimes(calls);
+      Reflect.deleteProperty(navigator, 'locks');
+      vi.restoreAllMocks();
+    });
+  });
+
+  describe('useStreamingRequest', () => {
+    beforeEach(() => {
+      vi.useRealTimers();
+    });
+
+    async function* streamWords(...words: string[]): AsyncGenerator<string> {
+      for (const word of words) {
+        await wait(5);
+        yield word;
+      }
+    }
+
+    it('should accumulate async iterable chunks through the reducer', async () => {
+      const onSuccess = vi.fn();
+      const { result } = renderHook(() =>
+        useStreamingRequest(() => streamWords('Hello', ' ', 'world'), {
+          defaultParams: [],
+          reducer: (text = '', chunk: string) => text + chunk,
+          onSuccess,
+        })
+      );
+
+      await waitFor(() => {
+        expect(result.current.done).toBe(true);
+      });
+      expect(result.current.chunks).toEqual(['Hello', ' ', 'world']);
+      expect(result.current.data).toBe('Hello world');
+      expect(result.current.loading).toBe(false);
+      expect(onSuccess).toHaveBeenCalledWith('Hello world', []);
+    });
+
+    it('should read ReadableStream responses', async () => {
+      const service = () =>
+        new ReadableStream<number>({
+          start(controller) {
+            controller.enqueue(1);
+            controller.enqueue(2);
+            controller.close();
+          },
+        });
+
+      const { result } = renderHook(() => useStreamingRequest(service, { defaultParams: [] }));
+
+      await waitFor(() => {
+        expect(result.current.done).toBe(true);
+      });
+      expect(result.current.data).toEqual([1, 2]);
+    });
+
+    it('should batch chunk updates and ignore chunks of replaced requests', async () => {
+      let renders = 0;
+      const service = (count: number) =>
+        new ReadableStream<number>({
+          start(controller) {
+            for (let index = 0; index < count; index++) {
+              controller.enqueue(index);
+            }
+            controller.close();
+          },
+        });
+
+      const { result } = renderHook(() => {
+        renders++;
+        return useStreamingRequest(service, { manual: true });
+      });
+      act(() => {
+        result.current.run(500);
+        result.current.run(2);
+      });
+
+      await waitFor(() => {
+        expect(result.current.done).toBe(true);
+      });
+      expect(result.current.data).toEqual([0, 1]);
+
+      renders = 0;
+      act(() => {
+        result.current.run(500);
+      });
+      await waitFor(() => {
+        expect(result.current.done).toBe(true);
+      });
+      expect(result.current.chunks).toHaveLength(500);
+      expect(renders).toBeLessThan(10);
+    });
+
+    it('should retry failures before the first chunk', async () => {
+      const service = vi
+        .fn()
+        .mockRejectedValueOnce(new Error('Unavailable'))
+        .mockImplementation(() => streamWords('ok'));
+
+      const { result } = renderHook(() =>
+        useStreamingRequest<string>(service, { defaultParams: [], retry: { count: 1, delay: 5 } })
+      );
+
+      await waitFor(() => {
+        expect(result.current.done).toBe(true);
+      });
+      expect(service).toHaveBeenCalledTimes(2);
+      expect(result.current.chunks).toEqual(['ok']);
+    });
+
+    it('should abort the stream and keep the received chunks', async () => {
+      async function* slowStream(): AsyncGenerator<string> {
+        yield 'first';
+        await wait(100);
+        yield 'second';
+      }
+      const { result } = renderHook(() => useStreamingRequest(slowStream, { manual: true }));
+
+      act(() => {
+        result.current.run();
+      });
+      await waitFor(() => {
+        expect(result.current.chunks).toEqual(['first']);
+      });
+      act(() => {
+        result.current.abort();
+      });
+
+      await waitFor(() => {
+        expect(result.current.cancelled).toBe(true);
+      });
+      await advance(150);
+      expect(result.current.chunks).toEqual(['first']);
+      expect(result.current.done).toBe(false);
+      expect(result.current.error).toBeUndefined();
+    });
+  });
+
+  describe('createFetcher', () => {
+    beforeEach(() => {
+      vi.useRealTimers();
+    });
+
+    const jsonResponse = (body: unknown, init: ResponseInit = {}) =>
+      new Response(JSON.stringify(body), {
+        ...init,
+        headers: { 'content-type': 'application/json', ...init.headers },
+      });
+
+    it('should build requests from the base URL, headers and params', async () => {
+      const fetchMock = vi.fn((_request: Request) => Promise.resolve(jsonResponse({ id: '42' })));
+      const api = createFetcher({
+        baseUrl: 'https://api.test/v1/',
+        headers: () => ({ authorization: 'Bearer token' }),
+        fetch: fetchMock as unknown as typeof fetch,
+      });
+      const updateUser = api.patch((id: string, name: string) => ({
+        path: `/users/${id}`,
+        query: { notify: true, skip: undefined },
+        body: { name },
+      }));
+
+      await expect(updateUser('42', 'Ada')).resolves.toEqual({ id: '42' });
+
+      const request = fetchMock.mock.calls[0]![0];
+      expect(request.method).toBe('PATCH');
+      expect(request.url).toBe('https://api.test/v1/users/42?notify=true');
+      expect(request.headers.get('authorization')).toBe('Bearer token');
+      expect(request.headers.get('content-type')).toBe('application/json');
+      await expect(request.json()).resolves.toEqual({ name: 'Ada' });
+    });
+
+    it('should reject non-2xx responses with an HttpError', async () => {
+      const api = createFetcher({
+        fetch: () =>
+          Promise.resolve(
+            jsonResponse(
+              { message: 'Slow down' },
+              { status: 429, statusText: 'Too Many Requests', headers: { 'retry-after': '2' } }
+            )
+          ),
+      });
+
+      const error: unknown = await api
+        .get('/limited')()
+        .catch((error_: unknown) => error_);
+
+      expect(error).toBeInstanceOf(HttpError);
+      expect(error).toMatchObject({
+        status: 429,
+        statusText: 'Too Many Requests',
+        body: { message: 'Slow down' },
+        retryAfter: 2000,
+      });
+      expect(isRetryableError(error as HttpError)).toBe(true);
+    });
+
+    it('should run interceptors in order', async () => {
+      const api = createFetcher({
+        fetch: (input) => Promise.resolve(new Response((input as Request).headers.get('x-trace'))),
+        interceptors: {
+          request: [
+            (request) => {
+              const headers = new Headers(request.headers);
+              headers.set('x-trace', 'abc');
+              return new Request(request, { headers });
+            },
+          ],
+          response: [
+            async (response) => new Response((await response.text()).toUpperCase(), response),
+          ],
+        },
+      });
+
+      await expect(api.get('/trace')()).resolves.toBe('ABC');
+    });
+
+    it('should plug into useRequest with the request signal', async () => {
+      let receivedSignal: AbortSignal | undefined;
+      const api = createFetcher({
+        fetch: (input) => {
+          receivedSignal = (input as Request).signal;
+          return Promise.resolve(jsonResponse({ name: 'Ada' }));
+        },
+      });
+      const getUser = api.get<{ name: string }, [id: string]>((id) => `/users/${id}`);
+
+      const { result } = renderHook(() =>
+        useRequest(getUser, { defaultParams: ['1'], withSignal: true })
+      );
+
+      await waitFor(() => {
+        expect(result.current.data?.name).toBe('Ada');
+      });
+      expect(receivedSignal).toBeInstanceOf(AbortSignal);
+    });
+  });
+
+  describe('useAsyncFunction concurrency', () => {
+    beforeEach(() => {
+      vi.useRealTimers();
+    });
+
+    const delayed = <T,>(value: T, ms: number): Promise<T> =>
+      new Promise((resolve) => {
+        setTimeout(() => resolve(value), ms);
+      });
+
+    it('should keep only the latest result and abort earlier calls with takeLatest', async () => {
+      const signals: AbortSignal[] = [];
+      const search = (query: string, context?: RequestContext): Promise<string> => {
+        signals.push(context!.signal);
+        return delayed(query, query === 'a' ? 40 : 10);
+      };
+      const { result } = renderHook(() =>
+        useAsyncFunction(search, { concurrency: 'takeLatest', withSignal: true })
+      );
+
+      let first: unknown;
+      let second: unknown;
+      await act(async () => {
+        const firstCall = result.current[1]('a');
+        await wait(0);
+        const secondCall = result.current[1]('ab');
+        [first, second] = await Promise.all([firstCall, secondCall]);
+      });
+
+      expect(first).toBeUndefined();
+      expect(second).toBe('ab');
+      expect(signals[0]!.aborted).toBe(true);
+      expect(signals[1]!.aborted).toBe(false);
+      expect(result.current[0].value).toBe('ab');
+      expect(result.current[0].pendingCount).toBe(0);
+    });
+
+    it('should settle a superseded call without a timeout even if it ignores the signal', async () => {
+      const search = (query: string): Promise<string> =>
+        query === 'a' ? new Promise<never>(() => undefined) : Promise.resolve(query);
+      const { result } = renderHook(() => useAsyncFunction(search, { concurrency: 'takeLatest' }));
+
+      let first: unknown = 'pending';
+      await act(async () => {
+        const firstCall = result.current[1]('a').then((value) => {
+          first = value;
+        });
+        await wait(0);
+        await result.current[1]('ab');
+        await firstCall;
+      });
+
+      expect(first).toBeUndefined();
+      expect(result.current[0].value).toBe('ab');
+      expect(result.current[0].pendingCount).toBe(0);
+    });
+
+    it('should not report calls cancelled by the unmount as failures', async () => {
+      const consoleError = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+      const fn = (context?: RequestContext): Promise<never> =>
+        new Promise((_, reject) => {
+          context!.signal.addEventListener('abort', () => reject(new Error('Aborted')));
+        });
+      const { result, unmount } = renderHook(() => useAsyncFunction(fn, { withSignal: true }));
+
+      let call: Promise<unknown> | undefined;
+      await act(async () => {
+        call = result.current[1]();
+        await wait(0);
+      });
+      unmount();
+
+      await expect(call).resolves.toBeUndefined();
+      expect(consoleError).not.toHaveBeenCalled();
+      consoleError.mockRestore();
+    });
+
+    it('should ignore calls while one is pending with takeFirst', async () => {
+      const fn = vi.fn((value: number) => delayed(value, 10));
+      const { result } = renderHook(() => useAsyncFunction(fn, { concurrency: 'takeFirst' }));
+
+      await act(async () => {
+        const results = await Promise.all([result.current[1](1), result.current[1](2)]);
+        expect(results).toEqual([1, undefined]);
+      });
+      expect(fn).toHaveBeenCalledTimes(1);
+      expect(result.current[0].value).toBe(1);
+    });
+
+    it('should run calls one at a time in order with queue', async () => {
+      const order: string[] = [];
+      const fn = async (label: string, ms: number): Promise<string> => {
+        order.push(`start ${label}`);
+        await delayed(undefined, ms);
+        order.push(`end ${label}`);
+        return label;
+      };
+      const { result } = renderHook(() => useAsyncFunction(fn, { concurrency: 'queue' }));
+
+      let calls: Promise<unknown> | undefined;
+      act(() => {
+        calls = Promise.all([result.current[1]('slow', 30), result.current[1]('fast', 5)]);
+      });
+      expect(result.current[0].pendingCount).toBe(2);
+      expect(result.current[0].status).toBe('pending');
+      expect(result.current[0].loading).toBe(true);
+
+      await act(async () => {
+        await calls;
+      });
+      expect(order).toEqual(['start slow', 'end slow', 'start fast', 'end fast']);
+      expect(result.current[0].value).toBe('fast');
+    });
+
+    it('should limit parallel calls with maxConcurrency', async () => {
+      let running = 0;
+      let maxRunning = 0;
+      const fn = async (value: number): Promise<number> => {
+        running += 1;
+        maxRunning = Math.max(maxRunning, running);
+        await delayed(undefined, 10);
+        running -= 1;
+        return value;
+      };
+      const { result } = renderHook(() =>
+        useAsyncFunction(fn, { concurrency: 'parallel', maxConcurrency: 2 })
+      );
+
+      await act(async () => {
+        await Promise.all([1, 2, 3, 4, 5].map((value) => result.current[1](value)));
+      });
+      expect(maxRunning).toBe(2);
+      expect(result.current[0].pendingCount).toBe(0);
+    });
+  });
 });
@@ -0,0 +1,424 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
+import { useEventSource, useWebSocket } from '../../src/hooks/realtime/index.js';
+
+class MockEventSource extends EventTarget {
+  static readonly CONNECTING = 0;
+  static readonly OPEN = 1;
+  static readonly CLOSED = 2;
+  static instances: MockEventSource[] = [];
+
+  readonly url: string;
+  readonly withCredentials: boolean;
+  readyState = MockEventSource.CONNECTING;
+  closed = false;
+
+  constructor(url: string, init?: EventSourceInit) {
+    super();
+    this.url = url;
+    this.withCredentials = init?.withCredentials ?? false;
+    MockEventSource.instances.push(this);
+  }
+
+  static get latest(): MockEventSource {
+    return MockEventSource.instances[MockEventSource.instances.length - 1]!;
+  }
+
+  open(): void {
+    this.readyState = MockEventSource.OPEN;
+    this.dispatchEvent(new Event('open'));
+  }
+
+  emit(type: string, data: unknown, lastEventId = ''): void {
+    this.dispatchEvent(new MessageEvent(type, { data: JSON.stringify(data), lastEventId }));
+  }
+
+  /** Drop the connection; the browser retries unless `readyState` is CLOSED */
+  fail(readyState = MockEventSource.CONNECTING): void {
+    this.readyState = readyState;
+    this.dispatchEvent(new Event('error'));
+  }
+
+  close(): void {
+    this.readyState = MockEventSource.CLOSED;
+    this.closed = true;
+  }
+}
+
+class MockWebSocket extends EventTarget {
+  static readonly CONNECTING = 0;
+  static readonly OPEN = 1;
+  static readonly CLOSING = 2;
+  static readonly CLOSED = 3;
+  static instances: MockWebSocket[] = [];
+
+  readonly url: string;
+  readonly protocols: string | string[] | undefined;
+  readyState = MockWebSocket.CONNECTING;
+  sent: unknown[] = [];
+
+  constructor(url: string, protocols?: string | string[]) {
+    super();
+    this.url = url;
+    this.protocols = protocols;
+    MockWebSocket.instances.push(this);
+  }
+
+  static get latest(): MockWebSocket {
+    return MockWebSocket.instances[MockWebSocket.instances.length - 1]!;
+  }
+
+  open(): void {
+    this.readyState = MockWebSocket.OPEN;
+    this.dispatchEvent(new Event('open'));
+  }
+
+  receive(data: unknown): void {
+    const raw = typeof data === 'string' ? data : JSON.stringify(data);
+    this.dispatchEvent(new MessageEvent('message', { data: raw }));
+  }
+
+  send(data: unknown): void {
+    this.sent.push(data);
+  }
+
+  close(code = 1000, reason = ''): void {
+    if (this.readyState === MockWebSocket.CLOSED) {
+      return;
+    }
+    this.readyState = MockWebSocket.CLOSED;
+    this.dispatchEvent(new CloseEvent('close', { code, reason }));
+  }
+}
+
+describe('realtime hooks', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    MockEventSource.instances = [];
+    MockWebSocket.instances = [];
+    vi.stubGlobal('EventSource', MockEventSource);
+    vi.stubGlobal('WebSocket', MockWebSocket);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  describe('useEventSource', () => {
+    it('should connect and expose typed named events', () => {
+      type FeedEvents = { message: { price: number }; alert: string };
+      const onMessage = vi.fn();
+
+      const { result } = renderHook(() =>
+        useEventSource<FeedEvents>('/feed', { events: ['message', 'alert'], onMessage })
+      );
+      expect(result.current.status).toBe('connecting');
+
+      act(() => {
+        MockEventSource.latest.open();
+        MockEventSource.latest.emit('message', { price: 42 });
+        MockEventSource.latest.emit('alert', 'Market closed', '7');
+      });
+
+      expect(result.current.status).toBe('open');
+      expect(result.current.data).toEqual({ message: { price: 42 }, alert: 'Market closed' });
+      expect(result.current.lastEvent).toEqual({
+        type: 'alert',
+        data: 'Market closed',
+        lastEventId: '7',
+      });
+      expect(result.current.lastEventId).toBe('7');
+      expect(onMessage).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not resume a new url from the last event id of the previous one', () => {
+      const { result, rerender } = renderHook(({ url }) => useEventSource(url), {
+        initialProps: { url: '/feed/a' },
+      });
+
+      act(() => {
+        MockEventSource.latest.open();
+        MockEventSource.latest.emit('message', 'first', '41');
+      });
+      expect(result.current.lastEventId).toBe('41');
+
+      rerender({ url: '/feed/b' });
+
+      expect(MockEventSource.latest.url).toBe('/feed/b');
+      expect(result.current.lastEventId).toBeUndefined();
+    });
+
+    it('should let the browser reconnect while the event source is connecting', () => {
+      const { result } = renderHook(() => useEventSource('/feed'));
+
+      act(() => {
+        MockEventSource.latest.open();
+        MockEventSource.latest.emit('message', 'first', '41');
+        MockEventSource.latest.fail();
+      });
+      expect(result.current.status).toBe('reconnecting');
+      expect(result.current.retryCount).toBe(1);
+
+      act(() => {
+        vi.advanceTimersByTime(60_000);
+      });
+      // The browser reconnects the same EventSource, sending the Last-Event-ID header
+      expect(MockEventSource.instances).toHaveLength(1);
+      expect(MockEventSource.latest.closed).toBe(false);
+
+      act(() => {
+        MockEventSource.latest.open();
+      });
+      expect(result.current.status).toBe('open');
+      expect(result.current.retryCount).toBe(0);
+    });
+
+    it('should reconnect with backoff once the browser gives up', () => {
+      const { result } = renderHook(() =>
+        useEventSource('/feed', {
+          reconnect: { count: 2, delay: (attempt) => attempt * 100 },
+          lastEventIdParam: 'lastEventId',
+        })
+      );
+
+      act(() => {
+        MockEventSource.latest.open();
+        MockEventSource.latest.emit('message', 'first', '41');
+        MockEventSource.latest.fail(MockEventSource.CLOSED);
+      });
+      expect(result.current.status).toBe('reconnecting');
+      expect(result.current.retryCount).toBe(1);
+
+      act(() => {
+        vi.advanceTimersByTime(100);
+      });
+      expect(MockEventSource.instances).toHaveLength(2);
+      expect(MockEventSource.latest.url).toBe('/feed?lastEventId=41');
+
+      act(() => {
+        MockEventSource.latest.fail(MockEventSource.CLOSED);
+      });
+      act(() => {
+        vi.advanceTimersByTime(199);
+      });
+      expect(MockEventSource.instances).toHaveLength(2);
+      act(() => {
+        vi.advanceTimersByTime(1);
+      });
+      expect(MockEventSource.instances).toHaveLength(3);
+
+      act(() => {
+        MockEventSource.latest.fail();
+      });
+      expect(result.current.status).toBe('closed');
+      expect(MockEventSource.latest.closed).toBe(true);
+      expect(result.current.error?.message).toBe('EventSource connection failed');
+    });
+
+    it('should pause while the page is hidden', () => {
+      let hidden = false;
+      vi.spyOn(document, 'hidden', 'get').mockImplementation(() => hidden);
+
+      const { result } = renderHook(() => useEventSource('/feed'));
+      act(() => {
+        MockEventSource.latest.open();
+      });
+
+      act(() => {
+        hidden = true;
+        document.dispatchEvent(new Event('visibilitychange'));
+      });
+      expect(result.current.status).toBe('paused');
+      expect(MockEventSource.latest.closed).toBe(true);
+
+      act(() => {
+        hidden = false;
+        document.dispatchEvent(new Event('visibilitychange'));
+      });
+      expect(result.current.status).toBe('connecting');
+      expect(MockEventSource.instances).toHaveLength(2);
+    });
+
+    it('should stay closed after close until reconnect', () => {
+      const { result } = renderHook(() => useEventSource('/feed'));
+
+      act(() => {
+        result.current.close();
+      });
+      expect(result.current.status).toBe('closed');
+      expect(MockEventSource.latest.closed).toBe(true);
+
+      act(() => {
+        result.current.reconnect();
+      });
+      expect(result.current.status).toBe('connecting');
+      expect(MockEventSource.instances).toHaveLength(2);
+    });
+  });
+
+  describe('useWebSocket', () => {
+    type ServerMessage = { type: 'chat'; text: string } | { type: 'presence'; users: string[] };
+    type ClientMessage = { type: 'chat'; text: string };
+
+    it('should queue messages until the connection opens', () => {
+      const { result } = renderHook(() =>
+        useWebSocket<ServerMessage, ClientMessage>('wss://chat.test', { protocols: 'v1' })
+      );
+      expect(result.current.readyState).toBe('connecting');
+      expect(MockWebSocket.latest.protocols).toBe('v1');
+
+      act(() => {
+        result.current.send({ type: 'chat', text: 'hi' });
+      });
+      expect(MockWebSocket.latest.sent).toEqual([]);
+
+      act(() => {
+        MockWebSocket.latest.open();
+      });
+      expect(result.current.readyState).toBe('open');
+      expect(MockWebSocket.latest.sent).toEqual(['{"type":"chat","text":"hi"}']);
+
+      act(() => {
+        result.current.send({ type: 'chat', text: 'again' });
+      });
+      expect(MockWebSocket.latest.sent).toHaveLength(2);
+    });
+
+    it('should parse messages and dispatch them by type', () => {
+      const onChat = vi.fn();
+      const { result } = renderHook(() => useWebSocket<ServerMessage>('wss://chat.test'));
+      act(() => {
+        result.current.subscribe('chat', onChat);
+        MockWebSocket.latest.open();
+        MockWebSocket.latest.receive({ type: 'presence', users: ['ada'] });
+        MockWebSocket.latest.receive({ type: 'chat', text: 'hello' });
+      });
+
+      expect(result.current.lastMessage).toEqual({ type: 'chat', text: 'hello' });
+      expect(onChat).toHaveBeenCalledTimes(1);
+      expect(onChat).toHaveBeenCalledWith({ type: 'chat', text: 'hello' });
+    });
+
+    it('should reconnect with backoff after the connection drops', () => {
+      const onError = vi.fn();
+      const { result } = renderHook(() =>
+        useWebSocket('wss://chat.test', { reconnect: { count: 1, delay: 100 }, onError })
+      );
+      act(() => {
+        MockWebSocket.latest.open();
+        MockWebSocket.latest.dispatchEvent(new Event('error'));
+        MockWebSocket.latest.close(1006);
+      });
+      expect(onError).toHaveBeenCalledTimes(1);
+      expect(result.current.readyState).toBe('reconnecting');
+      expect(result.current.retryCount).toBe(1);
+
+      act(() => {
+        vi.advanceTimersByTime(100);
+      });
+      expect(MockWebSocket.instances).toHaveLength(2);
+
+      act(() => {
+        MockWebSocket.latest.close(1006);
+      });
+      expect(result.current.readyState).toBe('closed');
+    });
+
+    it('should stay closed after a normal closure unless asked to reconnect', () => {
+      const closed = renderHook(() => useWebSocket('wss://chat.test'));
+      act(() => {
+        MockWebSocket.latest.open();
+        MockWebSocket.latest.close(1000);
+      });
+      expect(closed.result.current.readyState).toBe('closed');
+
+      const reconnecting = renderHook(() =>
+        useWebSocket('wss://chat.test', { reconnectOnNormalClose: true })
+      );
+      act(() => {
+        MockWebSocket.latest.open();
+        MockWebSocket.latest.close(1000);
+      });
+      expect(reconnecting.result.current.readyState).toBe('reconnecting');
+    });
+
+    it('should cap the queue and clear it when the url changes or the socket closes', () => {
+      const { result, rerender } = renderHook(
+        ({ url }) => useWebSocket<unknown, string>(url, { maxQueueSize: 2 }),
+        { initialProps: { url: 'wss://a.test' } }
+      );
+      act(() => {
+        for (const message of ['1', '2', '3']) {
+          result.current.send(message);
+        }
+      });
+      act(() => {
+        MockWebSocket.latest.open();
+      });
+      expect(MockWebSocket.latest.sent).toEqual(['2', '3']);
+
+      act(() => {
+        MockWebSocket.latest.close(1006);
+        result.current.send('for a');
+      });
+      rerender({ url: 'wss://b.test' });
+      act(() => {
+        MockWebSocket.latest.open();
+      });
+      expect(MockWebSocket.latest.sent).toEqual([]);
+
+      act(() => {
+        MockWebSocket.latest.close(1006);
+        result.current.send('before close');
+        result.current.close();
+      });
+      act(() => {
+        result.current.reconnect();
+      });
+      act(() => {
+        MockWebSocket.latest.open();
+      });
+      expect(MockWebSocket.latest.sent).toEqual([]);
+    });
+
+    it('should reconnect when heartbeats go unanswered', () => {
+      const { result } = renderHook(() =>
+        useWebSocket('wss://chat.test', { heartbeat: { interval: 100, timeout: 50 } })
+      );
+      act(() => {
+        MockWebSocket.latest.open();
+        vi.advanceTimersByTime(100);
+      });
+      expect(MockWebSocket.latest.sent).toEqual(['ping']);
+
+      act(() => {
+        MockWebSocket.latest.receive('pong');
+        vi.advanceTimersByTime(100);
+      });
+      expect(result.current.lastMessage).toBeUndefined();
+      expect(result.current.readyState).toBe('open');
+
+      act(() => {
+        vi.advanceTimersByTime(50);
+      });
+      expect(MockWebSocket.instances[0]!.readyState).toBe(MockWebSocket.CLOSED);
+      expect(result.current.readyState).toBe('reconnecting');
+    });
+
+    it('should not reconnect after close', () => {
+      const { result } = renderHook(() => useWebSocket('wss://chat.test'));
+      act(() => {
+        MockWebSocket.latest.open();
+        result.current.close();
+      });
+      act(() => {
+        vi.advanceTimersByTime(60_000);
+      });
+
+      expect(result.current.readyState).toBe('closed');
+      expect(MockWebSocket.instances).toHaveLength(1);
+    });
+  });
+});